@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AhoCorasick } from './aho-corasick.js';
+
+function search(patterns: string[], text: string): [number, number, number][] {
+  const found: [number, number, number][] = [];
+  new AhoCorasick(patterns).search(text, (index, start, end) => found.push([index, start, end]));
+  return found;
+}
+
+// Transition lookups made while scanning `text`, i.e. the states the scan visits
+function countLookups(automaton: AhoCorasick, text: string): number {
+  const get = vi.spyOn(Map.prototype, 'get');
+  const has = vi.spyOn(Map.prototype, 'has');
+  automaton.search(text, () => {});
+  const lookups = get.mock.calls.length + has.mock.calls.length;
+  vi.restoreAllMocks();
+  return lookups;
+}
+
+function glossary(size: number): string[] {
+  return Array.from({ length: size }, (_, i) => [`term${i} rate`, `rate ${i}`, 'a'.repeat(i % 20 + 1)]).flat();
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('AhoCorasick', () => {
+  it('reports every occurrence of every pattern, ordered by end offset', () => {
+    expect(search(['he', 'she', 'his', 'hers'], 'ushers')).toEqual([
+      [1, 1, 4],
+      [0, 2, 4],
+      [3, 2, 6],
+    ]);
+  });
+
+  it('reports overlapping occurrences of the same pattern', () => {
+    expect(search(['aa'], 'aaaa')).toEqual([[0, 0, 2], [0, 1, 3], [0, 2, 4]]);
+  });
+
+  it('reports repeated patterns under each index', () => {
+    expect(search(['rate', 'rate'], 'a rate')).toEqual([[0, 2, 6], [1, 2, 6]]);
+  });
+
+  it('finds patterns through failure links', () => {
+    expect(search(['interest rate', 'rate cap'], 'interest rate cap')).toEqual([
+      [0, 0, 13],
+      [1, 9, 17],
+    ]);
+  });
+
+  it('never matches empty patterns', () => {
+    expect(search(['', 'a'], 'aa')).toEqual([[1, 0, 1], [1, 1, 2]]);
+  });
+
+  it('visits the same states however many patterns there are', () => {
+    const text = 'the interest rate 42 of term7 rate and aaaaaaaaaaaaaaaaaaaaaaaaaab rate 9999 '.repeat(50);
+    const small = countLookups(new AhoCorasick(glossary(10)), text);
+    const large = countLookups(new AhoCorasick(glossary(5_000)), text);
+
+    // At most one failure step per character on top of the transition itself
+    expect(large).toBeLessThanOrEqual(3 * text.length);
+    expect(large).toBeLessThanOrEqual(small * 1.5);
+  });
+
+  it('visits states in proportion to the text length', () => {
+    const automaton = new AhoCorasick(glossary(1_000));
+    const text = 'the interest rate 42 of term7 rate and aaaaaaaaaab rate 123 ';
+
+    expect(countLookups(automaton, text.repeat(200))).toBe(2 * countLookups(automaton, text.repeat(100)));
+  });
+});
@@ -0,0 +1,81 @@
+// Multi-pattern string search (Aho-Corasick). Patterns are compiled once into a trie with
+// failure links, so a scan costs O(text length + matches) no matter how many patterns there are.
+export class AhoCorasick {
+  private transitions: Map<number, number>[] = [new Map()];
+  private failure: number[] = [0];
+  // Patterns ending exactly at each state; several when patterns repeat
+  private terminals: number[][] = [[]];
+  // Nearest state on the failure chain that ends a pattern, or -1
+  private outputLinks: number[] = [-1];
+  private lengths: number[];
+
+  // Empty patterns never match
+  constructor(patterns: readonly string[]) {
+    this.lengths = patterns.map(pattern => pattern.length);
+    patterns.forEach((pattern, index) => {
+      if (pattern.length > 0) this.insert(pattern, index);
+    });
+    this.link();
+  }
+
+  private insert(pattern: string, index: number): void {
+    let state = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const code = pattern.charCodeAt(i);
+      let next = this.transitions[state].get(code);
+      if (next === undefined) {
+        next = this.transitions.length;
+        this.transitions.push(new Map());
+        this.failure.push(0);
+        this.terminals.push([]);
+        this.outputLinks.push(-1);
+        this.transitions[state].set(code, next);
+      }
+      state = next;
+    }
+    this.terminals[state].push(index);
+  }
+
+  // Breadth-first, so every state's failure target is linked before the state itself
+  private link(): void {
+    const queue = Array.from(this.transitions[0].values());
+
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      this.transitions[state].forEach((child, code) => {
+        let fallback = this.failure[state];
+        while (fallback !== 0 && !this.transitions[fallback].has(code)) {
+          fallback = this.failure[fallback];
+        }
+        const target = this.transitions[fallback].get(code);
+        const failure = target !== undefined && target !== child ? target : 0;
+
+        this.failure[child] = failure;
+        this.outputLinks[child] = this.terminals[failure].length > 0 ? failure : this.outputLinks[failure];
+        queue.push(child);
+      });
+    }
+  }
+
+  // Reports every occurrence, overlapping ones included, ordered by end offset
+  search(text: string, onMatch: (patternIndex: number, start: number, end: number) => void): void {
+    let state = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      while (state !== 0 && !this.transitions[state].has(code)) {
+        state = this.failure[state];
+      }
+      state = this.transitions[state].get(code) ?? 0;
+
+      const end = i + 1;
+      let output = this.terminals[state].length > 0 ? state : this.outputLinks[state];
+      while (output > 0) {
+        for (const patternIndex of this.terminals[output]) {
+          onMatch(patternIndex, end - this.lengths[patternIndex], end);
+        }
+        output = this.outputLinks[output];
+      }
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ContentCache } from './content-cache.js';
+import { CacheConfigSchema, type CacheConfig } from './types.js';
+
+function createCache(config: Partial<CacheConfig> = {}): ContentCache<string> {
+  return new ContentCache(CacheConfigSchema.parse(config));
+}
+
+// A loader whose result the test settles by hand
+function deferredLoader() {
+  let resolve!: (value: string) => void;
+  let reject!: (error: unknown) => void;
+  const signals: AbortSignal[] = [];
+  const loader = vi.fn((signal: AbortSignal) => {
+    signals.push(signal);
+    return new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+  });
+  return { loader, signals, resolve: (value: string) => resolve(value), reject: (error: unknown) => reject(error) };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ContentCache', () => {
+  it('shares one load between concurrent callers', async () => {
+    const cache = createCache();
+    const { loader, resolve } = deferredLoader();
+
+    const first = cache.load('rate', loader);
+    const second = cache.load('rate', loader);
+    resolve('content');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['content', 'content']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves later loads from the cache', async () => {
+    const cache = createCache();
+    await cache.load('rate', async () => 'content');
+
+    const loader = vi.fn(async () => 'fresh');
+    await expect(cache.load('rate', loader)).resolves.toBe('content');
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it('does not cache failed loads', async () => {
+    const cache = createCache();
+    await expect(cache.load('rate', async () => { throw new Error('offline'); })).rejects.toThrow('offline');
+
+    expect(cache.has('rate')).toBe(false);
+    await expect(cache.load('rate', async () => 'content')).resolves.toBe('content');
+  });
+
+  it('drops the result of a load that was deleted while running', async () => {
+    const cache = createCache();
+    const { loader, resolve } = deferredLoader();
+
+    const pending = cache.load('rate', loader);
+    cache.delete('rate');
+    resolve('stale');
+
+    await expect(pending).resolves.toBe('stale');
+    expect(cache.has('rate')).toBe(false);
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = createCache({ maxEntries: 2 });
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.get('a');
+    cache.set('c', '3');
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+  });
+
+  it('expires entries after the TTL', () => {
+    vi.useFakeTimers();
+    const cache = createCache({ ttlMs: 1000 });
+    cache.set('rate', 'content');
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get('rate')).toBe('content');
+    vi.advanceTimersByTime(1);
+    expect(cache.get('rate')).toBeUndefined();
+  });
+
+  it('stores nothing when disabled', () => {
+    const cache = createCache({ enabled: false });
+    cache.set('rate', 'content');
+    expect(cache.size).toBe(0);
+  });
+
+  describe('aborting', () => {
+    it('rejects only the caller that aborted while the shared load goes on', async () => {
+      const cache = createCache();
+      const { loader, signals, resolve } = deferredLoader();
+      const controller = new AbortController();
+
+      const aborted = cache.load('rate', loader, controller.signal);
+      const kept = cache.load('rate', loader);
+      controller.abort();
+
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+      expect(signals[0].aborted).toBe(false);
+
+      resolve('content');
+      await expect(kept).resolves.toBe('content');
+      expect(cache.get('rate')).toBe('content');
+    });
+
+    it('aborts the shared load once every caller has aborted', async () => {
+      const cache = createCache();
+      const { loader, signals, resolve } = deferredLoader();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const loads = [cache.load('rate', loader, first.signal), cache.load('rate', loader, second.signal)];
+      first.abort();
+      expect(signals[0].aborted).toBe(false);
+      second.abort();
+      expect(signals[0].aborted).toBe(true);
+
+      await Promise.allSettled(loads);
+      resolve('late');
+      await Promise.resolve();
+      expect(cache.has('rate')).toBe(false);
+    });
+
+    it('starts a new load for callers that come after the shared load was aborted', async () => {
+      const cache = createCache();
+      const { loader } = deferredLoader();
+      const controller = new AbortController();
+
+      const aborted = cache.load('rate', loader, controller.signal);
+      controller.abort();
+      await expect(aborted).rejects.toThrow();
+
+      await expect(cache.load('rate', async () => 'content')).resolves.toBe('content');
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('aborts a load detached by delete or clear once its callers abort', async () => {
+      for (const detach of [(cache: ContentCache<string>) => cache.delete('rate'), (cache: ContentCache<string>) => cache.clear()]) {
+        const cache = createCache();
+        const { loader, signals } = deferredLoader();
+        const first = new AbortController();
+        const second = new AbortController();
+
+        const loads = [cache.load('rate', loader, first.signal), cache.load('rate', loader, second.signal)];
+        detach(cache);
+        first.abort();
+        expect(signals[0].aborted).toBe(false);
+        second.abort();
+        expect(signals[0].aborted).toBe(true);
+        await Promise.allSettled(loads);
+      }
+    });
+
+    it('keeps a detached load running for a caller that did not abort', async () => {
+      const cache = createCache();
+      const { loader, signals, resolve } = deferredLoader();
+      const controller = new AbortController();
+
+      const aborted = cache.load('rate', loader, controller.signal);
+      const kept = cache.load('rate', loader);
+      cache.delete('rate');
+      controller.abort();
+      await expect(aborted).rejects.toThrow();
+
+      expect(signals[0].aborted).toBe(false);
+      resolve('content');
+      await expect(kept).resolves.toBe('content');
+      expect(cache.has('rate')).toBe(false);
+    });
+
+    it('rejects right away for an already aborted signal', async () => {
+      const cache = createCache();
+      const loader = vi.fn(async () => 'content');
+
+      await expect(cache.load('rate', loader, AbortSignal.abort())).rejects.toThrow();
+      expect(loader).not.toHaveBeenCalled();
+    });
+  });
+});
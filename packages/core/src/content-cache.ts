@@ -0,0 +1,175 @@
+import type { CacheConfig } from './types.js';
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+interface InFlightLoad<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  consumers: number;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+// LRU cache with TTL that also deduplicates concurrent loads for the same key.
+// Map iteration order doubles as recency order: reads re-insert the entry at the end.
+export class ContentCache<T> {
+  private config: CacheConfig;
+  private entries: Map<string, CacheEntry<T>> = new Map();
+  private inFlight: Map<string, InFlightLoad<T>> = new Map();
+
+  constructor(config: CacheConfig) {
+    this.config = config;
+  }
+
+  updateConfig(config: CacheConfig): void {
+    this.config = config;
+    if (!config.enabled) {
+      this.entries.clear();
+      return;
+    }
+    this.evict();
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  set(key: string, value: T): void {
+    if (!this.config.enabled || this.config.maxEntries === 0) return;
+
+    const ttl = this.config.ttlMs > 0 ? this.config.ttlMs : Infinity;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+    this.evict();
+  }
+
+  // Returns the cached value, joins a pending load, or starts a new one.
+  // Every caller may abort independently; the shared load is only aborted once
+  // all of its callers have gone. Rejected or aborted loads are never cached.
+  async load(key: string, loader: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) throw abortReason(signal);
+
+    const cached = this.get(key);
+    if (cached !== undefined) return cached;
+
+    let load = this.inFlight.get(key);
+    if (!load) {
+      load = this.startLoad(key, loader);
+    }
+    load.consumers++;
+
+    const current = load;
+    // Each caller leaves exactly once. The last caller to abort also aborts the shared load,
+    // including a load that delete() or clear() already detached from the cache.
+    let released = false;
+    const release = (aborted: boolean) => {
+      if (released) return;
+      released = true;
+      current.consumers--;
+      if (!aborted || current.consumers > 0) return;
+      if (this.inFlight.get(key) === current) {
+        this.inFlight.delete(key);
+      }
+      current.controller.abort();
+    };
+
+    if (!signal) {
+      return current.promise.finally(() => release(false));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        release(true);
+        reject(abortReason(signal));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      current.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          release(false);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          release(false);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  // A detached in-flight load keeps running for the callers waiting on it, but its result
+  // is not cached and the next load for the key starts afresh
+  delete(key: string): void {
+    this.entries.delete(key);
+    this.inFlight.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private startLoad(key: string, loader: (signal: AbortSignal) => Promise<T>): InFlightLoad<T> {
+    const controller = new AbortController();
+
+    // Returns false if the load was invalidated or abandoned while it was running
+    const settle = () => {
+      const isCurrent = this.inFlight.get(key) === load;
+      if (isCurrent) {
+        this.inFlight.delete(key);
+      }
+      return isCurrent && !controller.signal.aborted;
+    };
+
+    const promise = loader(controller.signal).then(
+      value => {
+        if (settle()) {
+          this.set(key, value);
+        }
+        return value;
+      },
+      error => {
+        settle();
+        throw error;
+      }
+    );
+
+    const load: InFlightLoad<T> = { promise, controller, consumers: 0 };
+    this.inFlight.set(key, load);
+    return load;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
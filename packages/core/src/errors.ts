@@ -0,0 +1,18 @@
+// Raised by the engine when a data source throws while resolving a term
+export class SourceResolutionError extends Error {
+  readonly source: string;
+  readonly term: string;
+  readonly retryable: boolean;
+  readonly cause: unknown;
+
+  constructor(source: string, term: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Source "${source}" failed to resolve term "${term}": ${reason}`);
+    this.name = 'SourceResolutionError';
+    this.source = source;
+    this.term = term;
+    this.cause = cause;
+    // Sources can opt out of retries by flagging their errors, e.g. for a 4xx response
+    this.retryable = (cause as { retryable?: unknown } | null)?.retryable !== false;
+  }
+}
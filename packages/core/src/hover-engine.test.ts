@@ -0,0 +1,635 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HoverEngine } from './hover-engine.js';
+import { HoverKitConfigSchema, type DataSource } from './types.js';
+
+const engines: HoverEngine[] = [];
+
+function createEngine(sources: DataSource[]): HoverEngine {
+  const engine = new HoverEngine(HoverKitConfigSchema.parse({ sources }));
+  engines.push(engine);
+  return engine;
+}
+
+afterEach(() => {
+  engines.splice(0).forEach(engine => engine.destroy());
+});
+
+// An element in the page at a fixed viewport rect
+function elementAt(rect: { left: number; top: number; width: number; height: number }): HTMLElement {
+  const element = document.createElement('a');
+  document.body.appendChild(element);
+  vi.spyOn(element, 'getBoundingClientRect').mockReturnValue({
+    ...rect, x: rect.left, y: rect.top, right: rect.left + rect.width, bottom: rect.top + rect.height, toJSON: () => rect,
+  });
+  return element;
+}
+
+describe('HoverEngine terms', () => {
+  it('registers the terms listed by sources', async () => {
+    const engine = createEngine([
+      { name: 'glossary', resolve: async () => null, getTerms: async () => [{ term: 'interest rate', aliases: ['APR'] }] },
+    ]);
+    const onLoaded = vi.fn();
+    engine.on('termsLoaded', onLoaded);
+
+    await engine.whenTermsReady();
+
+    expect(engine.getTerms()).toContain('interest rate');
+    expect(engine.getCanonicalTerm('APR')).toBe('interest rate');
+    expect(onLoaded).toHaveBeenCalledWith(['interest rate']);
+  });
+
+  it('keeps the terms of other sources when one fails to list them', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const engine = createEngine([
+      { name: 'broken', resolve: async () => null, getTerms: async () => { throw new Error('offline'); } },
+      { name: 'glossary', resolve: async () => null, getTerms: async () => [{ term: 'principal' }] },
+    ]);
+
+    await engine.whenTermsReady();
+
+    expect(engine.getTerms()).toEqual(['principal']);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('HoverEngine card loading', () => {
+  it('aborts the source lookup when its card closes', async () => {
+    let signal: AbortSignal | undefined;
+    const engine = createEngine([
+      {
+        name: 'slow',
+        resolve: (_term, options) => {
+          signal = options?.signal;
+          return new Promise(() => {});
+        },
+      },
+    ]);
+
+    const opening = engine.openCard('rate', document.body, { x: 0, y: 0 });
+    await vi.waitFor(() => expect(signal).toBeDefined());
+    engine.closeCard(engine.getSnapshot().cards[0].id);
+
+    expect(signal!.aborted).toBe(true);
+    await expect(opening).resolves.toEqual(expect.any(String));
+  });
+
+  it('aborts the lookup of a closed card after the cache was cleared', async () => {
+    let signal: AbortSignal | undefined;
+    const engine = createEngine([
+      {
+        name: 'slow',
+        resolve: (_term, options) => {
+          signal = options?.signal;
+          return new Promise(() => {});
+        },
+      },
+    ]);
+
+    engine.openCard('rate', document.body, { x: 0, y: 0 });
+    await vi.waitFor(() => expect(signal).toBeDefined());
+    engine.clearCache();
+    engine.closeCard(engine.getSnapshot().cards[0].id);
+
+    expect(signal!.aborted).toBe(true);
+  });
+});
+
+describe('HoverEngine retryCard', () => {
+  it('asks the sources again after a miss', async () => {
+    let calls = 0;
+    const resolve = vi.fn(async (term: string) => (++calls > 1 ? { title: term } : null));
+    const engine = createEngine([{ name: 'glossary', resolve }]);
+
+    const cardId = (await engine.openCard('rate', document.body, { x: 0, y: 0 }))!;
+    expect(engine.getCard(cardId)).toMatchObject({ notFound: true, content: null });
+
+    await engine.retryCard(cardId);
+
+    expect(resolve).toHaveBeenCalledTimes(2);
+    expect(engine.getCard(cardId)).toMatchObject({ notFound: false, content: { title: 'rate' } });
+  });
+
+  it('clears the error of a failed load', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let calls = 0;
+    const resolve = vi.fn(async (term: string) => {
+      if (++calls === 1) throw new Error('offline');
+      return { title: term };
+    });
+    const engine = createEngine([{ name: 'glossary', resolve }]);
+
+    const cardId = (await engine.openCard('rate', document.body, { x: 0, y: 0 }))!;
+    expect(engine.getCard(cardId)?.error).toMatchObject({ source: 'glossary', retryable: true });
+
+    await engine.retryCard(cardId);
+
+    expect(engine.getCard(cardId)).toMatchObject({ error: undefined, content: { title: 'rate' } });
+    warn.mockRestore();
+  });
+
+  it('asks the sources again for the term beforeResolve looks up', async () => {
+    const resolve = vi.fn(async (term: string) => ({ title: term, html: `<p>${term}</p>` }));
+    const engine = new HoverEngine(HoverKitConfigSchema.parse({
+      sources: [{ name: 'glossary', resolve }],
+      plugins: [{ name: 'alias', beforeResolve: () => 'interest rate' }],
+    }));
+    engines.push(engine);
+
+    const cardId = (await engine.openCard('APR', document.body, { x: 0, y: 0 }))!;
+    await engine.retryCard(cardId);
+
+    expect(resolve).toHaveBeenCalledTimes(2);
+    expect(resolve).toHaveBeenLastCalledWith('interest rate', expect.anything());
+    expect(engine.getCard(cardId)?.content?.title).toBe('interest rate');
+  });
+});
+
+describe('HoverEngine routing', () => {
+  function createRoutedEngine(routes: unknown[]) {
+    const resolved: string[] = [];
+    const source = (name: string): DataSource => ({
+      name,
+      resolve: async term => {
+        resolved.push(`${name}:${term}`);
+        return { title: term };
+      },
+    });
+    const engine = new HoverEngine(HoverKitConfigSchema.parse({
+      sources: [source('glossary'), source('api'), source('tickets')],
+      routing: { routes },
+    }));
+    engines.push(engine);
+    return { engine, resolved };
+  }
+
+  it('asks the sources of the first matching route', async () => {
+    const { engine, resolved } = createRoutedEngine([
+      { namespace: 'api', sources: ['api'] },
+      { pattern: '^[A-Z]+-\\d+$', sources: ['tickets'] },
+    ]);
+
+    await engine.resolveContent('api:User');
+    await engine.resolveContent('HK-42');
+    await engine.resolveContent('rate');
+
+    expect(resolved).toEqual(['api:api:User', 'tickets:HK-42', 'glossary:rate']);
+  });
+
+  it('picks up new routes when the config changes', async () => {
+    const { engine, resolved } = createRoutedEngine([{ pattern: /^HK-/, sources: ['tickets'] }]);
+    await engine.resolveContent('HK-1');
+
+    engine.updateConfig(HoverKitConfigSchema.parse({
+      ...engine.getConfig(),
+      routing: { routes: [{ pattern: '^HK-', sources: ['api'] }] },
+    }));
+    await engine.resolveContent('HK-2');
+
+    expect(resolved).toEqual(['tickets:HK-1', 'api:HK-2']);
+  });
+
+  it('rejects invalid patterns when the config is parsed', () => {
+    const result = HoverKitConfigSchema.safeParse({ sources: [], routing: { routes: [{ pattern: '([a-z', sources: ['api'] }] } });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0].message).toBe('Invalid route pattern: ([a-z');
+  });
+});
+
+describe('HoverEngine history', () => {
+  function createBrowsingEngine(resolve: DataSource['resolve']): HoverEngine {
+    const engine = new HoverEngine(HoverKitConfigSchema.parse({
+      sources: [{ name: 'glossary', resolve }],
+      behavior: { linkFollowInNewCard: false },
+    }));
+    engines.push(engine);
+    return engine;
+  }
+
+  it('follows links in place and steps back and forward through them', async () => {
+    const resolve = vi.fn(async (term: string) => ({ title: term }));
+    const engine = createBrowsingEngine(resolve);
+    const cardId = (await engine.openCard('interest rate', document.body, { x: 0, y: 0 }))!;
+    await engine.followLink('APR', cardId, { x: 0, y: 0 });
+    await engine.followLink('fee', cardId, { x: 0, y: 0 });
+
+    expect(engine.getAllCards()).toHaveLength(1);
+    expect(engine.getCard(cardId)).toMatchObject({ term: 'fee', history: ['interest rate', 'APR', 'fee'], historyIndex: 2 });
+    expect(engine.canGoForward(cardId)).toBe(false);
+
+    await engine.back(cardId);
+    await engine.back(cardId);
+    expect(engine.getCard(cardId)).toMatchObject({ term: 'interest rate', historyIndex: 0, content: { title: 'interest rate' } });
+    expect(engine.canGoBack(cardId)).toBe(false);
+
+    await engine.back(cardId);
+    await engine.forward(cardId);
+    expect(engine.getCard(cardId)).toMatchObject({ term: 'APR', historyIndex: 1, content: { title: 'APR' }, isLoading: false });
+    expect(engine.canGoForward(cardId)).toBe(true);
+    // Revisited entries come from the cache
+    expect(resolve).toHaveBeenCalledTimes(3);
+  });
+
+  it('drops the forward entries when a link is followed from the middle', async () => {
+    const engine = createBrowsingEngine(async (term: string) => ({ title: term }));
+    const cardId = (await engine.openCard('interest rate', document.body, { x: 0, y: 0 }))!;
+    await engine.followLink('APR', cardId, { x: 0, y: 0 });
+    await engine.followLink('fee', cardId, { x: 0, y: 0 });
+    await engine.back(cardId);
+
+    await engine.followLink('principal', cardId, { x: 0, y: 0 });
+
+    expect(engine.getCard(cardId)).toMatchObject({ history: ['interest rate', 'APR', 'principal'], historyIndex: 2 });
+    expect(engine.canGoForward(cardId)).toBe(false);
+  });
+
+  it('ignores content for an entry that was left before it loaded', async () => {
+    let finish: (content: { title: string }) => void = () => {};
+    const engine = createBrowsingEngine(term =>
+      term === 'slow' ? new Promise(resolve => { finish = resolve; }) : Promise.resolve({ title: term })
+    );
+    const cardId = (await engine.openCard('interest rate', document.body, { x: 0, y: 0 }))!;
+
+    const following = engine.followLink('slow', cardId, { x: 0, y: 0 });
+    await engine.back(cardId);
+    finish({ title: 'slow' });
+    await following;
+
+    expect(engine.getCard(cardId)).toMatchObject({ term: 'interest rate', content: { title: 'interest rate' }, isLoading: false });
+  });
+});
+
+describe('HoverEngine serialize/restore', () => {
+  const glossary: DataSource = { name: 'glossary', resolve: async term => ({ title: term }) };
+
+  it('restores a serialized stack in another engine', async () => {
+    const engine = createEngine([glossary]);
+    const rootId = (await engine.openCard('interest rate', document.body, { x: 100, y: 120.4 }))!;
+    const childId = (await engine.followLink('APR', rootId, { x: 300, y: 140 }))!;
+    await engine.followLink('fee', rootId, { x: 320, y: 400 });
+    engine.updateConfig({ ...engine.getConfig(), behavior: { ...engine.getConfig().behavior, linkFollowInNewCard: false } });
+    await engine.followLink('compounding', childId, { x: 0, y: 0 });
+
+    const snapshot = engine.serialize();
+    expect(snapshot).toEqual({
+      version: 1,
+      cards: [
+        { term: 'interest rate', position: { x: 100, y: 120 }, isPinned: true },
+        { term: 'compounding', position: { x: 300, y: 140 }, isPinned: false, parent: 0, history: ['APR', 'compounding'], historyIndex: 1 },
+        { term: 'fee', position: { x: 320, y: 400 }, isPinned: false, parent: 0 },
+      ],
+    });
+
+    const restored = createEngine([glossary]);
+    const ids = await restored.restore(JSON.parse(JSON.stringify(snapshot)));
+
+    expect(ids).toHaveLength(3);
+    expect(restored.serialize()).toEqual(snapshot);
+    expect(restored.getCard(ids[1])).toMatchObject({ parentId: ids[0], level: 1, content: { title: 'compounding' } });
+    expect(restored.canGoBack(ids[1])).toBe(true);
+  });
+
+  it('replaces the open stack', async () => {
+    const engine = createEngine([glossary]);
+    await engine.openCard('principal', document.body, { x: 0, y: 0 });
+
+    await engine.restore({ version: 1, cards: [{ term: 'fee', position: { x: 10, y: 10 }, isPinned: false }] });
+
+    expect(engine.getAllCards().map(card => card.term)).toEqual(['fee']);
+  });
+
+  it('skips cards whose parent is missing', async () => {
+    const engine = createEngine([glossary]);
+
+    await engine.restore({
+      version: 1,
+      cards: [
+        { term: 'fee', position: { x: 0, y: 0 }, isPinned: false, parent: 1 },
+        { term: 'rate', position: { x: 0, y: 0 }, isPinned: false },
+      ],
+    });
+
+    expect(engine.serialize().cards.map(card => card.term)).toEqual(['rate']);
+  });
+
+  it('ignores invalid snapshots', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const engine = createEngine([glossary]);
+    await engine.openCard('principal', document.body, { x: 0, y: 0 });
+
+    await expect(engine.restore({ version: 2, cards: [] })).resolves.toEqual([]);
+    expect(engine.getAllCards().map(card => card.term)).toEqual(['principal']);
+    warn.mockRestore();
+  });
+});
+
+describe('HoverEngine pinning', () => {
+  const glossary: DataSource = { name: 'glossary', resolve: async term => ({ title: term }) };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens cards transient and pins them once the scheduled delay runs out', async () => {
+    vi.useFakeTimers();
+    const engine = createEngine([glossary]);
+    const onPin = vi.fn();
+    engine.on('cardPin', onPin);
+    const cardId = (await engine.openCard('rate', document.body, { x: 0, y: 0 }))!;
+    expect(engine.getCard(cardId)?.isPinned).toBe(false);
+
+    engine.schedulePin(cardId);
+    expect(engine.getCard(cardId)?.pinScheduledAt).toEqual(expect.any(Number));
+
+    vi.advanceTimersByTime(engine.getConfig().behavior.pinOnHoverDelayMs);
+    expect(engine.getCard(cardId)).toMatchObject({ isPinned: true, pinScheduledAt: undefined });
+    expect(onPin).toHaveBeenCalledWith(cardId);
+  });
+
+  it('does not pin when the scheduled pin is cancelled', async () => {
+    vi.useFakeTimers();
+    const engine = createEngine([glossary]);
+    const cardId = (await engine.openCard('rate', document.body, { x: 0, y: 0 }))!;
+
+    engine.schedulePin(cardId);
+    engine.cancelScheduledPin(cardId);
+    vi.advanceTimersByTime(engine.getConfig().behavior.pinOnHoverDelayMs);
+
+    expect(engine.getCard(cardId)).toMatchObject({ isPinned: false, pinScheduledAt: undefined });
+  });
+
+  it('toggles the pin and reports each change', async () => {
+    const engine = createEngine([glossary]);
+    const onPin = vi.fn();
+    const onUnpin = vi.fn();
+    engine.on('cardPin', onPin);
+    engine.on('cardUnpin', onUnpin);
+    const cardId = (await engine.openCard('rate', document.body, { x: 0, y: 0 }))!;
+
+    engine.togglePin(cardId);
+    expect(engine.getCard(cardId)?.isPinned).toBe(true);
+    engine.togglePin(cardId);
+    expect(engine.getCard(cardId)?.isPinned).toBe(false);
+
+    expect(onPin).toHaveBeenCalledTimes(1);
+    expect(onUnpin).toHaveBeenCalledTimes(1);
+  });
+
+  it('pins a transient card once a link is followed out of it', async () => {
+    const engine = createEngine([glossary]);
+    const rootId = (await engine.openCard('rate', document.body, { x: 0, y: 0 }))!;
+
+    const childId = (await engine.followLink('APR', rootId, { x: 0, y: 0 }))!;
+
+    expect(engine.getCard(rootId)?.isPinned).toBe(true);
+    expect(engine.getCard(childId)?.isPinned).toBe(false);
+  });
+
+  it('counts transient cards toward maxOpenCards', async () => {
+    const engine = new HoverEngine(HoverKitConfigSchema.parse({ sources: [glossary], behavior: { maxOpenCards: 2 } }));
+    engines.push(engine);
+
+    const firstId = (await engine.openCard('rate', document.body, { x: 0, y: 0 }))!;
+    engine.pin(firstId);
+    await engine.openCard('fee', document.body, { x: 0, y: 0 });
+    await engine.openCard('principal', document.body, { x: 0, y: 0 });
+
+    expect(engine.getAllCards().map(card => [card.term, card.isPinned])).toEqual([['fee', false], ['principal', false]]);
+  });
+});
+
+describe('HoverEngine placement', () => {
+  it('places child cards against their link, clear of their siblings', async () => {
+    const engine = createEngine([{ name: 'glossary', resolve: async term => ({ title: term }) }]);
+    const rootId = (await engine.openCard('interest rate', document.body, { x: 0, y: 0 }))!;
+    const { width, height } = engine.getEstimatedCardSize();
+    const anchor = { left: 300, top: 300, width: 300, height: 20 };
+
+    const firstId = (await engine.followLink('APR', rootId, { x: 900, y: 700 }, elementAt(anchor)))!;
+    const secondId = (await engine.followLink('fee', rootId, { x: 900, y: 700 }, elementAt(anchor)))!;
+
+    const gap = engine.getConfig().behavior.placementGapPixels;
+    expect(engine.getCard(firstId)).toMatchObject({
+      parentId: rootId,
+      placement: 'bottom',
+      position: { x: 450, y: 320 + gap + height / 2 },
+    });
+    expect(engine.getCard(secondId)).toMatchObject({
+      placement: 'right',
+      position: { x: 600 + gap + width / 2 },
+    });
+  });
+
+  it('pins tapped terms beside the element, trying the configured sides', async () => {
+    const engine = new HoverEngine(HoverKitConfigSchema.parse({
+      sources: [{ name: 'glossary', resolve: async (term: string) => ({ title: term }) }],
+      behavior: { placementSides: ['bottom', 'left'] },
+    }));
+    engines.push(engine);
+
+    await engine.pinCard('rate', elementAt({ left: 400, top: 300, width: 60, height: 20 }));
+
+    expect(engine.getAllCards()[0]).toMatchObject({ isPinned: true, placement: 'left' });
+  });
+});
+
+describe('HoverEngine moving and resizing', () => {
+  const glossary: DataSource = { name: 'glossary', resolve: async term => ({ title: term }) };
+
+  async function openPinnedCard(engine: HoverEngine): Promise<string> {
+    await engine.pinCard('rate', elementAt({ left: 400, top: 300, width: 60, height: 20 }));
+    const cardId = engine.getAllCards()[0].id;
+    engine.setCardSize(cardId, { width: 200, height: 100 });
+    return cardId;
+  }
+
+  it('only moves pinned cards', async () => {
+    const engine = createEngine([glossary]);
+    const cardId = (await engine.openCard('rate', document.body, { x: 300, y: 300 }))!;
+
+    engine.moveCard(cardId, { x: 500, y: 500 });
+    engine.resizeCard(cardId, { width: 400, height: 400 });
+
+    expect(engine.getCard(cardId)?.position).toEqual({ x: 300, y: 300 });
+    expect(engine.getCard(cardId)?.isUserPlaced).toBeUndefined();
+  });
+
+  it('keeps a moved card inside the viewport and detaches it from its trigger', async () => {
+    const engine = createEngine([glossary]);
+    const cardId = await openPinnedCard(engine);
+    const padding = engine.getConfig().behavior.viewportPaddingPixels;
+
+    engine.moveCard(cardId, { x: 5000, y: -100 });
+
+    expect(engine.getCard(cardId)).toMatchObject({
+      position: { x: window.innerWidth - padding - 100, y: padding + 50 },
+      isUserPlaced: true,
+      placement: undefined,
+      anchorOffset: undefined,
+    });
+  });
+
+  it('resizes within the minimum size and the viewport, keeping the top-left corner', async () => {
+    const engine = createEngine([glossary]);
+    const cardId = await openPinnedCard(engine);
+    const padding = engine.getConfig().behavior.viewportPaddingPixels;
+    engine.moveCard(cardId, { x: 300, y: 200 });
+
+    engine.resizeCard(cardId, { width: 10, height: 10 });
+    expect(engine.getCard(cardId)).toMatchObject({
+      userSize: { width: 192, height: 120 },
+      position: { x: 200 + 96, y: 150 + 60 },
+    });
+
+    engine.resizeCard(cardId, { width: 5000, height: 5000 });
+    const card = engine.getCard(cardId)!;
+    expect(card.userSize).toEqual({ width: window.innerWidth - padding * 2, height: window.innerHeight - padding * 2 });
+    expect(card.position).toEqual({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+  });
+});
+
+describe('HoverEngine collapseTo', () => {
+  const glossary: DataSource = { name: 'glossary', resolve: async term => ({ title: term }) };
+
+  async function openChain(engine: HoverEngine): Promise<string[]> {
+    const rootId = (await engine.openCard('APR', document.body, { x: 0, y: 0 }))!;
+    const childId = (await engine.followLink('compounding', rootId, { x: 0, y: 0 }))!;
+    const grandchildId = (await engine.followLink('daily rate', childId, { x: 0, y: 0 }))!;
+    await engine.followLink('fee', rootId, { x: 0, y: 0 });
+    return [rootId, childId, grandchildId];
+  }
+
+  it('closes everything opened from the card', async () => {
+    const engine = createEngine([glossary]);
+    const [rootId, childId] = await openChain(engine);
+
+    engine.collapseTo(childId);
+    expect(engine.getAllCards().map(card => card.term)).toEqual(['APR', 'compounding', 'fee']);
+
+    engine.collapseTo(rootId);
+    expect(engine.getAllCards().map(card => card.term)).toEqual(['APR']);
+  });
+
+  it('leaves the chain to a card alone', async () => {
+    const engine = createEngine([glossary]);
+    const [rootId, childId, grandchildId] = await openChain(engine);
+
+    engine.collapseTo(grandchildId);
+
+    expect(engine.getCardChain(grandchildId).map(card => card.id)).toEqual([rootId, childId, grandchildId]);
+    expect(engine.getAllCards()).toHaveLength(4);
+  });
+
+  it('asks beforeClose about each card it closes', async () => {
+    const engine = createEngine([glossary]);
+    engine.use({ name: 'keep', beforeClose: card => card.term !== 'fee' });
+    const [rootId] = await openChain(engine);
+
+    engine.collapseTo(rootId);
+
+    expect(engine.getAllCards().map(card => card.term)).toEqual(['APR', 'fee']);
+  });
+});
+
+describe('HoverEngine plugins', () => {
+  const glossary: DataSource = { name: 'glossary', resolve: async term => ({ title: term }) };
+
+  it('opens the card beforeOpen rewrites, or none when it cancels', async () => {
+    const engine = createEngine([glossary]);
+    const remove = engine.use({ name: 'rename', beforeOpen: ({ term }) => ({ term: term.toUpperCase() }) });
+
+    const cardId = await engine.openCard('rate', document.body, { x: 0, y: 0 });
+    expect(engine.getCard(cardId!)).toMatchObject({ term: 'RATE', content: { title: 'RATE' } });
+
+    remove();
+    engine.use({ name: 'cancel', beforeOpen: () => false });
+    await expect(engine.openCard('fee', document.body, { x: 0, y: 0 })).resolves.toBeNull();
+    expect(engine.getAllCards()).toHaveLength(1);
+  });
+
+  it('keeps a card open when beforeClose vetoes', async () => {
+    const engine = createEngine([glossary]);
+    engine.use({ name: 'keep', beforeClose: card => card.term !== 'rate' });
+
+    const cardId = (await engine.openCard('rate', document.body, { x: 0, y: 0 }))!;
+    engine.closeCard(cardId);
+
+    expect(engine.getCard(cardId)).toBeDefined();
+  });
+
+  it('prunes past a beforeClose veto to stay within maxOpenCards', async () => {
+    const engine = new HoverEngine(HoverKitConfigSchema.parse({
+      sources: [glossary],
+      behavior: { maxOpenCards: 2 },
+      plugins: [{ name: 'keep', beforeClose: () => false }],
+    }));
+    engines.push(engine);
+
+    await engine.openCard('rate', document.body, { x: 0, y: 0 });
+    await engine.openCard('fee', document.body, { x: 0, y: 0 });
+    await engine.openCard('principal', document.body, { x: 0, y: 0 });
+
+    expect(engine.getAllCards().map(card => card.term)).toEqual(['fee', 'principal']);
+  });
+
+  it('reports a throwing hook to onError and still opens the card', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = new Error('broken');
+    const onError = vi.fn();
+    const engine = createEngine([glossary]);
+    engine.use({ name: 'broken', beforeOpen: () => { throw error; } });
+    engine.use({ name: 'listener', onError });
+
+    const cardId = await engine.openCard('rate', document.body, { x: 0, y: 0 });
+
+    expect(engine.getCard(cardId!)).toMatchObject({ term: 'rate' });
+    expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ term: 'rate' }));
+    warn.mockRestore();
+  });
+});
+
+describe('HoverEngine highlighting', () => {
+  it('wraps every match and restores the original text nodes on unhighlight', () => {
+    const engine = createEngine([]);
+    engine.addTerm('rate');
+    engine.addTerm('fee');
+    const container = document.createElement('div');
+    container.innerHTML = '<p>A rate and a fee.</p><p>Nothing here.</p>';
+    const paragraph = container.firstElementChild!;
+    const text = paragraph.firstChild as Text;
+    const untouched = container.lastElementChild!.firstChild;
+    paragraph.append(' Appended by the page.');
+
+    expect(engine.highlightElement(container).map(match => match.term)).toEqual(['rate', 'fee']);
+    expect(container.querySelectorAll('[data-hoverkit-match]')).toHaveLength(2);
+
+    engine.unhighlight(container);
+
+    expect(container.innerHTML).toBe('<p>A rate and a fee. Appended by the page.</p><p>Nothing here.</p>');
+    expect(paragraph.childNodes).toHaveLength(2);
+    expect(paragraph.firstChild).toBe(text);
+    expect(text.data).toBe('A rate and a fee.');
+    expect(container.lastElementChild!.firstChild).toBe(untouched);
+  });
+
+  it('restores nodes highlighted over several passes', () => {
+    const engine = createEngine([]);
+    engine.addTerm('rate');
+    const container = document.createElement('div');
+    container.innerHTML = '<p>A rate and a fee.</p>';
+    const text = container.firstElementChild!.firstChild as Text;
+
+    engine.highlightElement(container);
+    engine.addTerm('fee');
+    engine.highlightElement(container);
+    expect(container.querySelectorAll('[data-hoverkit-match]')).toHaveLength(2);
+
+    engine.unhighlight(container);
+
+    expect(container.innerHTML).toBe('<p>A rate and a fee.</p>');
+    expect(container.firstElementChild!.firstChild).toBe(text);
+  });
+});
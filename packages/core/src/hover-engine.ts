@@ -1,41 +1,169 @@
 import type { 
+  CardError,
   DataSource, 
   DataSourceContent, 
   HoverKitConfig, 
   CardState, 
+  HoverEnginePlugin,
   HoverKitEvents,
+  ParsedTerm,
+  ResolveOptions,
+  RoutingConfig,
+  SerializedCard,
+  SerializedCardStack,
+  TermDefinition,
   TermMatch 
 } from './types.js';
+import { SerializedCardStackSchema } from './types.js';
 import { TermMatcher } from './term-matcher.js';
+import { ContentCache } from './content-cache.js';
+import { SourceResolutionError } from './errors.js';
+import { resolveWithStrategy } from './resolution.js';
+import { parseTerm } from './terms.js';
+import { PluginPipeline } from './plugin-pipeline.js';
+import {
+  clampToViewport,
+  DEFAULT_CARD_SIZE,
+  getViewportSize,
+  MIN_USER_CARD_SIZE,
+  placeCard,
+  rectAround,
+  toPlacementRect,
+  type Placement,
+  type PlacementRect,
+  type PlacementSide,
+  type PlacementSize,
+} from './placement.js';
+import { EMPTY_SNAPSHOT, selectCardChain, type HoverEngineSnapshot, type SnapshotListener } from './store.js';
+
+interface HighlightedTextNode {
+  text: string;
+  fragments: Set<Node>;
+}
+
+// Structural comparison for plain config objects; RegExps compare by source and flags
+function isSameConfig(a: unknown, b: unknown): boolean {
+  const replacer = (_key: string, value: unknown) => (value instanceof RegExp ? value.toString() : value);
+  return JSON.stringify(a, replacer) === JSON.stringify(b, replacer);
+}
+
+// A term route with its pattern compiled, built once per routing config
+interface CompiledRoute {
+  namespace?: string;
+  pattern?: RegExp;
+  sources: string[];
+}
+
+function compileRoutes(routing: RoutingConfig): CompiledRoute[] {
+  return routing.routes.map(({ namespace, pattern, sources }) => ({
+    namespace,
+    pattern: typeof pattern === 'string' ? new RegExp(pattern) : pattern,
+    sources,
+  }));
+}
 
 export class HoverEngine {
   private config: HoverKitConfig;
   private termMatcher: TermMatcher;
+  private contentCache: ContentCache<DataSourceContent | null>;
+  private routes: CompiledRoute[];
+  private manualTerms: Map<string, TermDefinition> = new Map();
+  private termsReady: Promise<void> = Promise.resolve();
+  private termsGeneration = 0;
   private cards: Map<string, CardState> = new Map();
   private dwellTimers: Map<string, number> = new Map();
+  private pinTimers: Map<string, number> = new Map();
+  // Text nodes split by highlighting, with their original text and the nodes split off them
+  private highlightedNodes: Map<Text, HighlightedTextNode> = new Map();
+  private highlightFragments: WeakMap<Node, Text> = new WeakMap();
+  private lastMeasuredSize: PlacementSize | null = null;
+  private loadControllers: Map<string, AbortController> = new Map();
+  private plugins = new PluginPipeline();
+  private snapshot: HoverEngineSnapshot = EMPTY_SNAPSHOT;
+  private snapshotListeners: Set<SnapshotListener> = new Set();
   private eventHandlers: { [K in keyof HoverKitEvents]: HoverKitEvents[K][] };
   private cardIdCounter = 0;
 
   constructor(config: HoverKitConfig) {
     this.config = config;
     this.termMatcher = new TermMatcher(config.highlighting);
+    this.contentCache = new ContentCache(config.cache);
+    this.routes = compileRoutes(config.routing);
+    this.plugins.setConfigPlugins(config.plugins);
     this.eventHandlers = {
       cardOpen: [],
+      cardUpdate: [],
       cardClose: [],
       cardPin: [],
       cardUnpin: [],
       termHover: [],
       termLeave: [],
+      termsLoaded: [],
+      contentError: [],
     };
     this.initializeTerms();
   }
 
   updateConfig(config: HoverKitConfig): void {
+    const sourcesChanged = !this.hasSameSources(config.sources);
+    const routingChanged = !isSameConfig(config.routing, this.config.routing);
+    const resolutionChanged = routingChanged || !isSameConfig(config.resolution, this.config.resolution);
+    const highlightingChanged = !isSameConfig(config.highlighting, this.config.highlighting);
     this.config = config;
+    this.contentCache.updateConfig(config.cache);
+    this.plugins.setConfigPlugins(config.plugins);
+    if (routingChanged) {
+      this.routes = compileRoutes(config.routing);
+    }
+    if (sourcesChanged || resolutionChanged) {
+      this.contentCache.clear();
+    }
+
+    // Providers call this on every render, so only rebuild terms when something relevant changed
+    if (!sourcesChanged && !highlightingChanged) return;
+
     this.termMatcher = new TermMatcher(config.highlighting);
+    this.manualTerms.forEach(({ term, aliases, exact }) => this.termMatcher.addTerm(term, aliases, { exact }));
     this.initializeTerms();
   }
 
+  // Store
+  // Bound so they can be handed straight to useSyncExternalStore
+  subscribe = (listener: SnapshotListener): (() => void) => {
+    this.snapshotListeners.add(listener);
+    return () => {
+      this.snapshotListeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): HoverEngineSnapshot => this.snapshot;
+
+  private commit(): void {
+    this.snapshot = {
+      cards: Array.from(this.cards.values()),
+      version: this.snapshot.version + 1,
+    };
+    this.snapshotListeners.forEach(listener => listener());
+  }
+
+  // Cards are never mutated in place; updates swap in a new object
+  private updateCard(cardId: string, patch: Partial<CardState>): CardState | undefined {
+    const current = this.cards.get(cardId);
+    if (!current) return undefined;
+
+    const next: CardState = { ...current, ...patch };
+    this.cards.set(cardId, next);
+    this.commit();
+    this.emit('cardUpdate', next);
+    return next;
+  }
+
+  // Plugins
+  // Registers a plugin after those from config; returns a function that removes it
+  use(plugin: HoverEnginePlugin): () => void {
+    return this.plugins.add(plugin);
+  }
+
   // Event handling
   on<K extends keyof HoverKitEvents>(event: K, handler: HoverKitEvents[K]): void {
     (this.eventHandlers[event] as any[]).push(handler);
@@ -54,104 +182,136 @@ export class HoverEngine {
   }
 
   // Term management
-  private async initializeTerms(): Promise<void> {
-    // Pre-populate terms from data sources if they support it
-    for (const source of this.config.sources) {
-      // For now, we'll populate terms on-demand
-      // TODO: Add optional getTerms() method to DataSource interface
+  private initializeTerms(): void {
+    const generation = ++this.termsGeneration;
+    const sources = this.config.sources.filter(source => typeof source.getTerms === 'function');
+    if (sources.length === 0) {
+      this.termsReady = Promise.resolve();
+      return;
     }
+
+    this.termsReady = (async () => {
+      const results = await Promise.allSettled(sources.map(source => source.getTerms!()));
+
+      // A newer config superseded this load; its own pass will register terms
+      if (generation !== this.termsGeneration) return;
+
+      const loaded: TermDefinition[] = [];
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          loaded.push(...result.value);
+        } else {
+          console.warn(`Source "${sources[index].name}" failed to list terms:`, result.reason);
+        }
+      });
+
+      loaded.forEach(({ term, aliases, exact }) => this.termMatcher.addTerm(term, aliases, { exact }));
+      this.emit('termsLoaded', loaded.map(definition => definition.term));
+    })();
   }
 
-  addTerm(term: string, aliases?: string[]): void {
-    this.termMatcher.addTerm(term, aliases);
+  // Resolves once terms from every source's getTerms() have been registered
+  whenTermsReady(): Promise<void> {
+    return this.termsReady;
+  }
+
+  addTerm(term: string, aliases?: string[], options: { exact?: boolean } = {}): void {
+    this.manualTerms.set(term, { term, aliases, exact: options.exact });
+    this.termMatcher.addTerm(term, aliases, options);
+  }
+
+  // The glossary term behind a term, alias or inflected form
+  getCanonicalTerm(text: string): string {
+    return this.termMatcher.getCanonicalTerm(text);
+  }
+
+  getTerms(): string[] {
+    return this.termMatcher.getTerms();
   }
 
   // Highlighting
   highlightElement(element: HTMLElement): TermMatch[] {
     const matches = this.termMatcher.findMatches(element);
-    
-    // Apply highlighting to matched terms
-    matches.forEach(match => this.applyHighlighting(match));
-    
+
+    const byNode = new Map<Text, TermMatch[]>();
+    matches.forEach(match => {
+      const nodeMatches = byNode.get(match.textNode) ?? [];
+      nodeMatches.push(match);
+      byNode.set(match.textNode, nodeMatches);
+    });
+    byNode.forEach((nodeMatches, textNode) => this.applyHighlighting(textNode, nodeMatches));
+
     return matches;
   }
 
-  private applyHighlighting(match: TermMatch): void {
-    const { term, start, end, element } = match;
-    const textNode = this.findTextNode(element, start, end);
-    
-    if (!textNode) return;
+  // Wraps every match in the node. Works from the last match back, so splitting the node
+  // never moves the offsets of the matches still to be wrapped. The node itself keeps the
+  // text before the first match; what splitting added after it is recorded for unhighlight.
+  private applyHighlighting(textNode: Text, matches: TermMatch[]): void {
+    const original = this.highlightFragments.get(textNode) ?? textNode;
+    const record = this.highlightedNodes.get(original) ?? { text: original.data, fragments: new Set<Node>() };
+    const boundary = textNode.nextSibling;
+    const range = document.createRange();
 
-    // Create highlighted span
-    const span = document.createElement('span');
-    span.className = this.config.highlighting.className;
-    span.setAttribute('data-hoverkit-term', term);
-    span.setAttribute('data-hoverkit-match', 'true');
-    
-    // Split text node and wrap the term
-    const text = textNode.textContent || '';
-    const before = text.slice(0, start);
-    const termText = text.slice(start, end);
-    const after = text.slice(end);
-    
-    span.textContent = termText;
-    
-    // Replace text node with highlighted version
-    const parent = textNode.parentNode!;
-    if (before) parent.insertBefore(document.createTextNode(before), textNode);
-    parent.insertBefore(span, textNode);
-    if (after) parent.insertBefore(document.createTextNode(after), textNode);
-    parent.removeChild(textNode);
-
-    // Add event listeners
-    this.attachHoverListeners(span, term);
-  }
-
-  private findTextNode(element: HTMLElement, start: number, end: number): Text | null {
-    const walker = document.createTreeWalker(
-      element,
-      NodeFilter.SHOW_TEXT,
-      null
-    );
+    [...matches].sort((a, b) => b.start - a.start).forEach(({ term, start, end }) => {
+      if (!textNode.parentNode || end > textNode.length) return;
 
-    let currentPos = 0;
-    let node: Text | null;
-    
-    while ((node = walker.nextNode() as Text)) {
-      const text = node.textContent || '';
-      const nodeEnd = currentPos + text.length;
-      
-      if (start >= currentPos && end <= nodeEnd) {
-        return node;
-      }
-      
-      currentPos = nodeEnd;
+      const span = document.createElement('span');
+      span.className = this.config.highlighting.className;
+      span.setAttribute('data-hoverkit-term', term);
+      span.setAttribute('data-hoverkit-match', 'true');
+
+      range.setStart(textNode, start);
+      range.setEnd(textNode, end);
+      range.surroundContents(span);
+
+      this.attachHoverListeners(span, term);
+    });
+
+    range.detach();
+
+    for (let node = textNode.nextSibling; node && node !== boundary; node = node.nextSibling) {
+      record.fragments.add(node);
+      this.highlightFragments.set(node, original);
+    }
+    if (record.fragments.size > 0) {
+      this.highlightedNodes.set(original, record);
     }
-    
-    return null;
+  }
+
+  // Undoes highlightElement: puts the original text back into the original text nodes and
+  // removes the spans and fragments that highlighting created. Other nodes are left alone.
+  unhighlight(element: HTMLElement): void {
+    this.highlightedNodes.forEach((record, original) => {
+      if (!element.contains(original)) {
+        // Forget nodes the page has dropped
+        if (!original.isConnected) this.highlightedNodes.delete(original);
+        return;
+      }
+
+      record.fragments.forEach(node => {
+        const term = node instanceof Element ? node.getAttribute('data-hoverkit-term') : null;
+        if (term) this.clearDwellTimer(term);
+        if (node.parentNode === original.parentNode) {
+          node.parentNode?.removeChild(node);
+        }
+      });
+      original.data = record.text;
+      this.highlightedNodes.delete(original);
+    });
   }
 
   // Hover behavior
   private attachHoverListeners(element: HTMLElement, term: string): void {
-    let isHovering = false;
-
     const onMouseEnter = (e: MouseEvent) => {
-      isHovering = true;
       this.emit('termHover', term, element);
       this.startDwellTimer(term, element, e);
     };
 
-    const onMouseLeave = (e: MouseEvent) => {
-      isHovering = false;
+    // Closing is left to the UI, which knows whether the pointer moved on to the card
+    const onMouseLeave = () => {
       this.emit('termLeave', term, element);
       this.clearDwellTimer(term);
-      
-      // Don't close card immediately if user is moving to the card
-      setTimeout(() => {
-        if (!isHovering && !this.isHoveringCard(term)) {
-          this.closeUnpinnedCard(term);
-        }
-      }, 100);
     };
 
     const onClick = () => {
@@ -192,9 +352,31 @@ export class HoverEngine {
   }
 
   // Card management
-  async openCard(term: string, triggerElement: HTMLElement, position: { x: number; y: number }, parentId?: string): Promise<string> {
+  // Resolves to the new card's id, or null if a plugin cancelled the open
+  async openCard(
+    term: string,
+    triggerElement: HTMLElement,
+    position: { x: number; y: number },
+    parentId?: string,
+    placement?: PlacementSide
+  ): Promise<string | null> {
+    const request = await this.plugins.beforeOpen(
+      { term, triggerElement, position, parentId, placement },
+      { engine: this, term }
+    );
+    if (!request) return null;
+    ({ term, triggerElement, position, parentId, placement } = request);
+
+    // The parent may have closed while plugins ran
+    if (parentId && !this.cards.has(parentId)) return null;
+
+    // Cascading out of a transient card locks it, so the chain can't collapse underneath
+    if (parentId) {
+      this.pin(parentId);
+    }
+
     // Check if we've hit the max card limit
-    const openCards = Array.from(this.cards.values()).filter(card => card.isPinned || card.isLoading);
+    const openCards = Array.from(this.cards.values());
     if (openCards.length >= this.config.behavior.maxOpenCards) {
       // Build ancestor chain for the new card; never prune ancestors
       const ancestorIds = new Set<string>();
@@ -209,141 +391,548 @@ export class HoverEngine {
       const byOpened = candidates.sort((a, b) => (a.openedAt ?? 0) - (b.openedAt ?? 0));
       const toClose = byOpened[0] ?? null;
 
-      // As a last resort, if every card is an ancestor (rare), skip pruning
+      // As a last resort, if every card is an ancestor (rare), skip pruning.
+      // beforeClose is not consulted, so plugins can't push the stack past the limit.
       if (toClose) {
-        this.closeCard(toClose.id);
+        this.removeCard(toClose.id);
       }
     }
 
     const cardId = this.generateCardId();
     const level = parentId ? (this.cards.get(parentId)?.level || 0) + 1 : 0;
 
+    // followLink without a link element opens from document.body, which is no anchor
+    const isAnchor = triggerElement.isConnected && triggerElement !== triggerElement.ownerDocument.body;
+    const triggerRect = isAnchor ? triggerElement.getBoundingClientRect() : null;
+
     const card: CardState = {
       id: cardId,
       term,
       content: null,
       position,
-      isPinned: true,
+      isPinned: false,
       isLoading: true,
       parentId,
       level,
-      openedAt: Date.now()
+      openedAt: Date.now(),
+      triggerElement: isAnchor ? triggerElement : undefined,
+      anchorOffset: triggerRect ? { x: position.x - triggerRect.left, y: position.y - triggerRect.top } : undefined,
+      placement: isAnchor ? placement : undefined,
+      history: [term],
+      historyIndex: 0,
     };
 
     this.cards.set(cardId, card);
+    this.commit();
     this.emit('cardOpen', card);
 
-    // Load content
+    await this.loadCardContent(cardId);
+
+    return cardId;
+  }
+
+  // Resolves content for a card's current term and reports the outcome; `refresh` skips
+  // the cache. Results for cards that were closed or retargeted in the meantime are dropped.
+  private async loadCardContent(cardId: string, refresh = false): Promise<void> {
+    const card = this.cards.get(cardId);
+    if (!card) return;
+
+    const { term } = card;
+    const controller = this.beginLoad(cardId);
+    const context = { engine: this, term, cardId };
+
     try {
-      const content = await this.resolveContent(term);
-      card.content = content;
-      card.isLoading = false;
-      this.emit('cardOpen', card); // Emit again with content
+      const resolved = await this.resolveTerm(term, controller.signal, cardId, refresh);
+      const content = resolved && this.isCurrentLoad(cardId, controller)
+        ? await this.plugins.transformContent(resolved, context)
+        : resolved;
+      if (!this.isCurrentLoad(cardId, controller)) return;
+      this.updateCard(cardId, { content, notFound: content === null, isLoading: false });
     } catch (error) {
+      if (!this.isCurrentLoad(cardId, controller)) return;
       console.warn(`Failed to load content for term "${term}":`, error);
-      card.isLoading = false;
+      const cardError = this.toCardError(error);
+      this.plugins.onError(error, context);
       // Keep card open but with error state
-      this.emit('cardOpen', card);
+      this.updateCard(cardId, { isLoading: false, error: cardError });
+      this.emit('contentError', cardId, cardError);
+    } finally {
+      this.endLoad(cardId, controller);
     }
+  }
 
-    return cardId;
+  private toCardError(error: unknown): CardError {
+    if (error instanceof SourceResolutionError) {
+      return { source: error.source, message: error.message, retryable: error.retryable };
+    }
+    return {
+      message: error instanceof Error ? error.message : String(error),
+      retryable: true,
+    };
+  }
+
+  async retryCard(cardId: string): Promise<void> {
+    const card = this.cards.get(cardId);
+    if (!card || card.isLoading) return;
+
+    this.updateCard(cardId, { content: null, error: undefined, notFound: undefined, isLoading: true });
+
+    // Asks the sources again for whatever term beforeResolve maps the card's term to
+    await this.loadCardContent(cardId, true);
   }
 
   closeCard(cardId: string): void {
     const card = this.cards.get(cardId);
     if (!card) return;
 
+    if (!this.plugins.beforeClose(card, { engine: this, term: card.term, cardId })) return;
+    this.removeCard(cardId);
+  }
+
+  // Descendants go with their ancestor; plugins are only consulted for the card being closed
+  private removeCard(cardId: string): void {
     // Close any child cards first
     const childCards = Array.from(this.cards.values()).filter(c => c.parentId === cardId);
-    childCards.forEach(child => this.closeCard(child.id));
+    childCards.forEach(child => this.removeCard(child.id));
 
+    this.loadControllers.get(cardId)?.abort();
+    this.loadControllers.delete(cardId);
+    this.clearPinTimer(cardId);
     this.cards.delete(cardId);
+    this.commit();
     this.emit('cardClose', cardId);
   }
 
-  private closeUnpinnedCard(term: string): void {
-    const card = Array.from(this.cards.values()).find(c => c.term === term && !c.isPinned);
-    if (card) {
-      this.closeCard(card.id);
+  // Each card has at most one pending load; starting a new one cancels the previous
+  private beginLoad(cardId: string): AbortController {
+    this.loadControllers.get(cardId)?.abort();
+    const controller = new AbortController();
+    this.loadControllers.set(cardId, controller);
+    return controller;
+  }
+
+  private isCurrentLoad(cardId: string, controller: AbortController): boolean {
+    return this.cards.has(cardId) && this.loadControllers.get(cardId) === controller && !controller.signal.aborted;
+  }
+
+  private endLoad(cardId: string, controller: AbortController): void {
+    if (this.loadControllers.get(cardId) === controller) {
+      this.loadControllers.delete(cardId);
     }
   }
 
-  pinCard(term: string, element: HTMLElement): void {
-    // Find or create card for this term
-    let card = Array.from(this.cards.values()).find(c => c.term === term);
+  // Mobile fallback: opens the card already pinned, or pins the one that is open
+  async pinCard(term: string, element: HTMLElement): Promise<void> {
+    const card = Array.from(this.cards.values()).find(c => c.term === term);
     
     if (!card) {
-      // Create new card at element position
-      const rect = element.getBoundingClientRect();
-      const CARD_WIDTH = 256;
-      const CARD_HEIGHT = 400;
-      const EDGE = 12;
-
-      let x = rect.right + EDGE;
-      let y = rect.top;
-      if (x + CARD_WIDTH + EDGE > window.innerWidth) {
-        x = Math.max(EDGE, rect.left - CARD_WIDTH - EDGE);
+      // The configured sides, those beside the element first so a tapped term stays visible
+      const sides = this.config.behavior.placementSides;
+      const beside = (side: PlacementSide) => side === 'left' || side === 'right';
+      const { position, side } = this.computePlacement(toPlacementRect(element.getBoundingClientRect()), {
+        sides: [...sides.filter(beside), ...sides.filter(side => !beside(side))],
+      });
+
+      const cardId = await this.openCard(term, element, position, undefined, side);
+      if (cardId) {
+        this.pin(cardId);
       }
-      y = Math.max(EDGE, Math.min(window.innerHeight - CARD_HEIGHT - EDGE, y));
+    } else {
+      this.pin(card.id);
+    }
+  }
 
-      this.openCard(term, element, { x, y });
-    } else if (!card.isPinned) {
-      card.isPinned = true;
-      this.emit('cardPin', card.id);
+  pin(cardId: string): void {
+    const card = this.cards.get(cardId);
+    if (!card || card.isPinned) return;
+
+    this.clearPinTimer(cardId);
+    this.updateCard(cardId, { isPinned: true, pinScheduledAt: undefined });
+    this.emit('cardPin', cardId);
+  }
+
+  unpin(cardId: string): void {
+    const card = this.cards.get(cardId);
+    if (!card || !card.isPinned) return;
+
+    this.updateCard(cardId, { isPinned: false });
+    this.emit('cardUnpin', cardId);
+  }
+
+  togglePin(cardId: string): void {
+    const card = this.cards.get(cardId);
+    if (!card) return;
+
+    if (card.isPinned) {
+      this.unpin(cardId);
+    } else {
+      this.pin(cardId);
     }
   }
 
-  private isHoveringCard(term: string): boolean {
-    // This would be implemented by the UI layer
-    // For now, assume false
-    return false;
+  // Pins a transient card after pinOnHoverDelayMs unless cancelled first.
+  // pinScheduledAt lets the UI draw the progress ring.
+  schedulePin(cardId: string): void {
+    const card = this.cards.get(cardId);
+    if (!card || card.isPinned || this.pinTimers.has(cardId)) return;
+
+    const timer = window.setTimeout(() => {
+      this.pinTimers.delete(cardId);
+      this.pin(cardId);
+    }, this.config.behavior.pinOnHoverDelayMs);
+
+    this.pinTimers.set(cardId, timer);
+    this.updateCard(cardId, { pinScheduledAt: Date.now() });
+  }
+
+  cancelScheduledPin(cardId: string): void {
+    if (!this.pinTimers.has(cardId)) return;
+
+    this.clearPinTimer(cardId);
+    if (this.cards.has(cardId)) {
+      this.updateCard(cardId, { pinScheduledAt: undefined });
+    }
+  }
+
+  private clearPinTimer(cardId: string): void {
+    const timer = this.pinTimers.get(cardId);
+    if (timer) {
+      window.clearTimeout(timer);
+      this.pinTimers.delete(cardId);
+    }
   }
 
   // Content resolution
-  private async resolveContent(term: string): Promise<DataSourceContent | null> {
-    for (const source of this.config.sources) {
-      try {
-        const content = await source.resolve(term);
-        if (content) {
-          return content;
-        }
-      } catch (error) {
-        console.warn(`Source "${source.name}" failed to resolve term "${term}":`, error);
-        continue;
+  // Shared by cards and standalone consumers; results are cached and concurrent
+  // lookups for the same term share a single source walk.
+  resolveContent(term: string, options: ResolveOptions = {}): Promise<DataSourceContent | null> {
+    return this.resolveTerm(term, options.signal);
+  }
+
+  private async resolveTerm(
+    term: string,
+    signal?: AbortSignal,
+    cardId?: string,
+    refresh = false
+  ): Promise<DataSourceContent | null> {
+    const lookupTerm = await this.plugins.beforeResolve(term, { engine: this, term, cardId });
+    if (lookupTerm === null) return null;
+    signal?.throwIfAborted();
+
+    // The cache is keyed by the lookup term, not the term the card shows
+    if (refresh) this.invalidate(lookupTerm);
+
+    return this.contentCache.load(lookupTerm, async loadSignal => {
+      const content = await this.resolveFromSources(lookupTerm, loadSignal);
+      return this.plugins.afterResolve(content, { engine: this, term: lookupTerm });
+    }, signal);
+  }
+
+  private resolveFromSources(term: string, signal: AbortSignal): Promise<DataSourceContent | null> {
+    const parsed = parseTerm(term);
+    const sources = this.routeSources(term, parsed);
+    return resolveWithStrategy(sources, term, { signal, parsed }, this.config.resolution);
+  }
+
+  // Picks the sources named by the first matching route, or every source if none match
+  private routeSources(term: string, parsed: ParsedTerm): DataSource[] {
+    const route = this.routes.find(({ namespace, pattern }) => {
+      if (namespace !== undefined && namespace === parsed.namespace) return true;
+      if (pattern !== undefined) {
+        pattern.lastIndex = 0;
+        return pattern.test(term);
       }
+      return false;
+    });
+    if (!route) return this.config.sources;
+
+    const routed = route.sources
+      .map(name => this.config.sources.find(source => source.name === name))
+      .filter((source): source is DataSource => source !== undefined);
+
+    if (routed.length === 0) {
+      console.warn(`No configured source matches route [${route.sources.join(', ')}] for term "${term}"; using all sources`);
+      return this.config.sources;
     }
-    return null;
+    return routed;
+  }
+
+  invalidate(term: string): void {
+    this.contentCache.delete(term);
+  }
+
+  clearCache(): void {
+    this.contentCache.clear();
   }
 
   // Navigation
-  async followLink(linkTerm: string, fromCardId: string, position: { x: number; y: number }): Promise<string | null> {
+  // `linkElement` is the link inside the card; new cards open next to it when it's given
+  async followLink(
+    linkTerm: string,
+    fromCardId: string,
+    position: { x: number; y: number },
+    linkElement?: HTMLElement
+  ): Promise<string | null> {
     const parentCard = this.cards.get(fromCardId);
     if (!parentCard) return null;
 
     if (this.config.behavior.linkFollowInNewCard) {
-      return this.openCard(linkTerm, document.body, position, fromCardId);
-    } else {
-      // Replace current card content
-      parentCard.term = linkTerm;
-      parentCard.content = null;
-      parentCard.isLoading = true;
-      this.emit('cardOpen', parentCard);
-
-      try {
-        const content = await this.resolveContent(linkTerm);
-        parentCard.content = content;
-        parentCard.isLoading = false;
-        this.emit('cardOpen', parentCard);
-      } catch (error) {
-        console.warn(`Failed to load linked content for term "${linkTerm}":`, error);
-        parentCard.isLoading = false;
-        this.emit('cardOpen', parentCard);
+      if (!linkElement?.isConnected) {
+        return this.openCard(linkTerm, document.body, position, fromCardId);
       }
-
+      // Against the link like a root card against its trigger, clear of the other children
+      const placement = this.computePlacement(toPlacementRect(linkElement.getBoundingClientRect()), {
+        parentId: fromCardId,
+      });
+      return this.openCard(linkTerm, linkElement, placement.position, fromCardId, placement.side);
+    } else {
+      // Replace current card content, dropping any forward entries
+      const history = [...parentCard.history.slice(0, parentCard.historyIndex + 1), linkTerm];
+      await this.showHistoryEntry(fromCardId, history, history.length - 1);
       return fromCardId;
     }
   }
 
+  canGoBack(cardId: string): boolean {
+    const card = this.cards.get(cardId);
+    return !!card && card.historyIndex > 0;
+  }
+
+  canGoForward(cardId: string): boolean {
+    const card = this.cards.get(cardId);
+    return !!card && card.historyIndex < card.history.length - 1;
+  }
+
+  async back(cardId: string): Promise<void> {
+    const card = this.cards.get(cardId);
+    if (!card || !this.canGoBack(cardId)) return;
+    await this.showHistoryEntry(cardId, card.history, card.historyIndex - 1);
+  }
+
+  async forward(cardId: string): Promise<void> {
+    const card = this.cards.get(cardId);
+    if (!card || !this.canGoForward(cardId)) return;
+    await this.showHistoryEntry(cardId, card.history, card.historyIndex + 1);
+  }
+
+  // Revisited entries usually come straight from the content cache
+  private async showHistoryEntry(cardId: string, history: string[], historyIndex: number): Promise<void> {
+    this.updateCard(cardId, {
+      term: history[historyIndex],
+      history,
+      historyIndex,
+      content: null,
+      error: undefined,
+      notFound: undefined,
+      isLoading: true,
+    });
+
+    await this.loadCardContent(cardId);
+  }
+
+  setCardPosition(cardId: string, position: { x: number; y: number }): void {
+    const card = this.cards.get(cardId);
+    if (!card || (card.position.x === position.x && card.position.y === position.y)) return;
+    this.updateCard(cardId, { position });
+  }
+
+  // Moves a pinned card, e.g. when it is dragged. The card is kept inside the viewport
+  // and no longer follows the stack layout or its trigger.
+  moveCard(cardId: string, position: { x: number; y: number }): void {
+    const card = this.cards.get(cardId);
+    if (!card || !card.isPinned) return;
+
+    const size = card.size ?? this.getEstimatedCardSize();
+    const next = clampToViewport(position, size, getViewportSize(), this.config.behavior.viewportPaddingPixels);
+    if (card.isUserPlaced && next.x === card.position.x && next.y === card.position.y) return;
+
+    this.updateCard(cardId, { position: next, isUserPlaced: true, anchorOffset: undefined, placement: undefined });
+  }
+
+  // Resizes a pinned card, keeping its top-left corner where it is
+  resizeCard(cardId: string, size: PlacementSize): void {
+    const card = this.cards.get(cardId);
+    if (!card || !card.isPinned) return;
+
+    const viewport = getViewportSize();
+    const padding = this.config.behavior.viewportPaddingPixels;
+    const userSize = {
+      width: Math.round(Math.max(MIN_USER_CARD_SIZE.width, Math.min(size.width, viewport.width - padding * 2))),
+      height: Math.round(Math.max(MIN_USER_CARD_SIZE.height, Math.min(size.height, viewport.height - padding * 2))),
+    };
+    if (card.userSize?.width === userSize.width && card.userSize?.height === userSize.height) return;
+
+    const current = card.size ?? this.getEstimatedCardSize();
+    const left = card.position.x - current.width / 2;
+    const top = card.position.y - current.height / 2;
+    const position = clampToViewport(
+      { x: left + userSize.width / 2, y: top + userSize.height / 2 },
+      userSize,
+      viewport,
+      padding
+    );
+
+    this.updateCard(cardId, {
+      userSize,
+      size: userSize,
+      position,
+      isUserPlaced: true,
+      anchorOffset: undefined,
+      placement: undefined,
+    });
+  }
+
+  // Placement
+  // Size of the last rendered card; new cards are placed with it until they are measured
+  getEstimatedCardSize(): PlacementSize {
+    return this.lastMeasuredSize ?? DEFAULT_CARD_SIZE;
+  }
+
+  // Places a card against `anchor` using the behavior config, keeping clear of the
+  // other cards that share its parent
+  computePlacement(
+    anchor: PlacementRect,
+    options: { parentId?: string; cardId?: string; size?: PlacementSize; sides?: readonly PlacementSide[] } = {}
+  ): Placement {
+    const { behavior } = this.config;
+    const size = options.size ?? this.getEstimatedCardSize();
+    const siblings = Array.from(this.cards.values())
+      .filter(card => card.id !== options.cardId && card.parentId === options.parentId)
+      .map(card => rectAround(card.position, card.size ?? this.getEstimatedCardSize()));
+
+    return placeCard(anchor, size, getViewportSize(), {
+      sides: options.sides ?? behavior.placementSides,
+      gap: behavior.placementGapPixels,
+      padding: behavior.viewportPaddingPixels,
+      avoid: siblings,
+    });
+  }
+
+  // Called by the UI whenever a card's rendered size changes. Cards placed against a
+  // trigger are placed again, since the estimate they were opened with may have been off.
+  setCardSize(cardId: string, size: PlacementSize): void {
+    const card = this.cards.get(cardId);
+    if (!card || (card.size?.width === size.width && card.size?.height === size.height)) return;
+
+    this.lastMeasuredSize = size;
+
+    const { triggerElement, placement } = card;
+    if (!triggerElement || !placement || !triggerElement.isConnected) {
+      this.updateCard(cardId, { size });
+      return;
+    }
+
+    const triggerRect = triggerElement.getBoundingClientRect();
+    // Keep the current side first so the card only flips when it no longer fits
+    const sides = [placement, ...this.config.behavior.placementSides.filter(side => side !== placement)];
+    const next = this.computePlacement(toPlacementRect(triggerRect), { parentId: card.parentId, cardId, size, sides });
+
+    this.updateCard(cardId, {
+      size,
+      position: next.position,
+      placement: next.side,
+      anchorOffset: { x: next.position.x - triggerRect.left, y: next.position.y - triggerRect.top },
+    });
+  }
+
+  // Moves cards back next to their triggers, e.g. after a scroll or layout shift.
+  // Cards whose trigger left the DOM stay where they are.
+  repositionAnchoredCards(): void {
+    const moved: CardState[] = [];
+
+    this.cards.forEach(card => {
+      const { triggerElement, anchorOffset } = card;
+      if (!triggerElement || !anchorOffset || !triggerElement.isConnected) return;
+
+      const rect = triggerElement.getBoundingClientRect();
+      const position = { x: rect.left + anchorOffset.x, y: rect.top + anchorOffset.y };
+      if (position.x === card.position.x && position.y === card.position.y) return;
+
+      const next = { ...card, position };
+      this.cards.set(card.id, next);
+      moved.push(next);
+    });
+
+    if (moved.length === 0) return;
+    this.commit();
+    moved.forEach(card => this.emit('cardUpdate', card));
+  }
+
+  // Captures the open stack without content; restore() resolves it again
+  serialize(): SerializedCardStack {
+    const ordered = Array.from(this.cards.values())
+      .sort((a, b) => a.level - b.level || (a.openedAt ?? 0) - (b.openedAt ?? 0));
+    const indexById = new Map(ordered.map((card, index) => [card.id, index]));
+
+    return {
+      version: 1,
+      cards: ordered.map(card => {
+        const serialized: SerializedCard = {
+          term: card.term,
+          position: { x: Math.round(card.position.x), y: Math.round(card.position.y) },
+          isPinned: card.isPinned,
+        };
+        const parent = card.parentId ? indexById.get(card.parentId) : undefined;
+        if (parent !== undefined) serialized.parent = parent;
+        if (card.history.length > 1) {
+          serialized.history = card.history;
+          serialized.historyIndex = card.historyIndex;
+        }
+        return serialized;
+      }),
+    };
+  }
+
+  // Replaces the open stack. Input is validated, since it usually comes from a URL or storage;
+  // invalid snapshots leave the current stack alone. Cards whose parent can't be found are skipped.
+  async restore(snapshot: unknown): Promise<string[]> {
+    const parsed = SerializedCardStackSchema.safeParse(snapshot);
+    if (!parsed.success) {
+      console.warn('Ignoring invalid card stack snapshot:', parsed.error);
+      return [];
+    }
+
+    Array.from(this.cards.values())
+      .filter(card => !card.parentId)
+      .forEach(card => this.removeCard(card.id));
+
+    const restoredIds: Array<string | undefined> = [];
+    const restoredCards: CardState[] = [];
+
+    parsed.data.cards.forEach((entry, index) => {
+      const parentId = entry.parent !== undefined && entry.parent < index ? restoredIds[entry.parent] : undefined;
+      if (entry.parent !== undefined && !parentId) {
+        restoredIds.push(undefined);
+        return;
+      }
+
+      const hasHistory = entry.history && entry.historyIndex !== undefined && entry.history[entry.historyIndex] === entry.term;
+      const card: CardState = {
+        id: this.generateCardId(),
+        term: entry.term,
+        content: null,
+        position: entry.position,
+        isPinned: entry.isPinned,
+        isLoading: true,
+        parentId,
+        level: parentId ? (this.cards.get(parentId)?.level ?? 0) + 1 : 0,
+        openedAt: Date.now() + index,
+        history: hasHistory ? entry.history! : [entry.term],
+        historyIndex: hasHistory ? entry.historyIndex! : 0,
+      };
+
+      this.cards.set(card.id, card);
+      restoredIds.push(card.id);
+      restoredCards.push(card);
+    });
+
+    this.commit();
+    restoredCards.forEach(card => this.emit('cardOpen', card));
+
+    await Promise.all(restoredCards.map(card => this.loadCardContent(card.id)));
+    return restoredCards.map(card => card.id);
+  }
+
   // Utilities
   private generateCardId(): string {
     return `hoverkit-card-${++this.cardIdCounter}`;
@@ -353,6 +942,11 @@ export class HoverEngine {
     return this.config.sources;
   }
 
+  private hasSameSources(sources: DataSource[]): boolean {
+    const current = this.config.sources;
+    return sources.length === current.length && sources.every((source, index) => source === current[index]);
+  }
+
   getConfig(): HoverKitConfig {
     return this.config;
   }
@@ -365,17 +959,42 @@ export class HoverEngine {
     return Array.from(this.cards.values());
   }
 
+  // The card and its ancestors, root first
+  getCardChain(cardId: string): CardState[] {
+    return selectCardChain(this.snapshot, cardId);
+  }
+
+  // Closes everything opened from the card, leaving it on top of the stack
+  collapseTo(cardId: string): void {
+    if (!this.cards.has(cardId)) return;
+    Array.from(this.cards.values())
+      .filter(card => card.parentId === cardId)
+      .forEach(child => this.closeCard(child.id));
+  }
+
   // Cleanup
   destroy(): void {
     // Clear all timers
     this.dwellTimers.forEach(timer => window.clearTimeout(timer));
     this.dwellTimers.clear();
+    this.pinTimers.forEach(timer => window.clearTimeout(timer));
+    this.pinTimers.clear();
+    this.highlightedNodes.clear();
 
-    // Clear all cards
+    // Cancel pending loads and clear all cards
+    this.loadControllers.forEach(controller => controller.abort());
+    this.loadControllers.clear();
     this.cards.clear();
+    this.commit();
+    this.snapshotListeners.clear();
 
-    // Clear term matcher
+    // Clear term matcher and cached content
+    this.termsGeneration++;
+    this.manualTerms.clear();
     this.termMatcher.clear();
+    this.contentCache.clear();
+
+    this.plugins.clear();
 
     // Clear event handlers
     (Object.keys(this.eventHandlers) as Array<keyof HoverKitEvents>).forEach(event => {
@@ -1,3 +1,30 @@
 export { HoverEngine } from './hover-engine.js';
 export { TermMatcher } from './term-matcher.js';
+export { SourceResolutionError } from './errors.js';
+export {
+  placeCard,
+  clampToViewport,
+  rectAround,
+  toPlacementRect,
+  getViewportSize,
+  DEFAULT_CARD_SIZE,
+  DEFAULT_PLACEMENT_SIDES,
+  MIN_USER_CARD_SIZE,
+  type Placement,
+  type PlacementOptions,
+  type PlacementRect,
+  type PlacementSide,
+  type PlacementSize,
+} from './placement.js';
+export { parseTerm, formatTerm, NAMESPACE_SEPARATOR } from './terms.js';
+export {
+  selectCards,
+  selectCard,
+  selectTopCard,
+  selectTopCardId,
+  selectCardChain,
+  selectHasChildren,
+  type HoverEngineSnapshot,
+  type SnapshotListener,
+} from './store.js';
 export * from './types.js';
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { englishVariants, StemIndex } from './morphology.js';
+
+describe('englishVariants', () => {
+  it('inflects the last word of a phrase', () => {
+    expect(englishVariants('interest rate')).toEqual([
+      'interest rates',
+      "interest rate's",
+      "interest rates'",
+      'interest rate’s',
+      'interest rates’',
+      'interest rated',
+      'interest rating',
+    ]);
+  });
+
+  it('follows the spelling rules for -y, -s and -ch endings', () => {
+    expect(englishVariants('policy')).toEqual(expect.arrayContaining(['policies', 'policied']));
+    expect(englishVariants('tax')).toContain('taxes');
+    expect(englishVariants('branch')).toContain('branches');
+  });
+
+  it('singularizes plural terms', () => {
+    expect(englishVariants('fees')).toContain('fee');
+    expect(englishVariants('liabilities')).toContain('liability');
+  });
+
+  it('leaves short words and words ending in digits alone', () => {
+    expect(englishVariants('a')).toEqual([]);
+    expect(englishVariants('Form 10')).toEqual([]);
+  });
+});
+
+describe('StemIndex', () => {
+  // Drops a trailing "en" or "e", enough to stand in for a real stemmer
+  const stemmer = (word: string) => word.replace(/e?n$|e$/, '');
+
+  it('matches terms word by word through the stemmer', () => {
+    const index = new StemIndex(['zinssatz', 'feste rate'], stemmer);
+    const found: [number, number, number][] = [];
+    index.search('die festen raten und zinssatze', (term, start, end) => found.push([term, start, end]));
+
+    expect(found).toEqual([[1, 4, 16], [0, 21, 30]]);
+  });
+
+  it('only joins words separated by whitespace', () => {
+    const index = new StemIndex(['feste rate'], stemmer);
+    const found: number[] = [];
+    index.search('feste, rate', term => found.push(term));
+
+    expect(found).toEqual([]);
+  });
+
+  it('looks phrases up by their stems', () => {
+    const index = new StemIndex(['zinssatz', 'feste rate'], stemmer);
+
+    expect(index.lookup('festen raten')).toBe(1);
+    expect(index.lookup('rate')).toBeUndefined();
+  });
+});
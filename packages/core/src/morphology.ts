@@ -0,0 +1,110 @@
+import type { Stemmer } from './types.js';
+
+// Inflected forms of English glossary terms. Only the last word of a phrase is inflected
+// ("interest rate" → "interest rates"), which covers plurals, possessives and the
+// regular -ed/-ing forms. The rules are deliberately simple; irregular forms need aliases.
+export function englishVariants(phrase: string): string[] {
+  const split = phrase.lastIndexOf(' ') + 1;
+  const prefix = phrase.slice(0, split);
+  const word = phrase.slice(split);
+  if (word.length < 2 || !/\p{L}$/u.test(word)) return [];
+
+  const forms = new Set<string>();
+  const endsInConsonantY = /[^aeiou]y$/i.test(word);
+  const stem = word.slice(0, -1);
+
+  const plural = endsInConsonantY
+    ? `${stem}ies`
+    : /(s|x|z|ch|sh)$/i.test(word) ? `${word}es` : `${word}s`;
+  forms.add(plural);
+
+  // The term may itself be a plural
+  if (/ies$/i.test(word)) {
+    forms.add(`${word.slice(0, -3)}y`);
+  } else if (/[^s]s$/i.test(word)) {
+    forms.add(stem);
+  }
+
+  for (const apostrophe of ["'", '’']) {
+    forms.add(`${word}${apostrophe}s`);
+    forms.add(`${plural}${apostrophe}`);
+  }
+
+  if (/e$/i.test(word)) {
+    forms.add(`${word}d`);
+    forms.add(`${stem}ing`);
+  } else if (endsInConsonantY) {
+    forms.add(`${stem}ied`);
+    forms.add(`${word}ing`);
+  } else {
+    forms.add(`${word}ed`);
+    forms.add(`${word}ing`);
+  }
+
+  forms.delete(word);
+  return Array.from(forms, form => prefix + form);
+}
+
+interface StemmedTerm {
+  termIndex: number;
+  stems: string[];
+}
+
+interface Token {
+  start: number;
+  end: number;
+  stem: string;
+}
+
+const WORD = /[\p{L}\p{M}\p{N}\p{Pc}]+/gu;
+
+function tokenize(text: string, stemmer: Stemmer): Token[] {
+  return Array.from(text.matchAll(WORD), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    stem: stemmer(match[0]),
+  }));
+}
+
+// Matches terms word by word through a stemmer, for languages whose inflections can't be
+// listed up front. Words of a multi-word term may only be separated by whitespace.
+export class StemIndex {
+  // Keyed by the stem of each term's first word
+  private byFirstStem = new Map<string, StemmedTerm[]>();
+
+  constructor(terms: readonly string[], private stemmer: Stemmer) {
+    terms.forEach((term, termIndex) => {
+      const stems = tokenize(term, stemmer).map(token => token.stem);
+      if (stems.length === 0) return;
+
+      const entries = this.byFirstStem.get(stems[0]) ?? [];
+      entries.push({ termIndex, stems });
+      this.byFirstStem.set(stems[0], entries);
+    });
+  }
+
+  // Expects text folded the same way as the terms
+  search(text: string, onMatch: (termIndex: number, start: number, end: number) => void): void {
+    if (this.byFirstStem.size === 0) return;
+    const tokens = tokenize(text, this.stemmer);
+
+    tokens.forEach((token, index) => {
+      this.byFirstStem.get(token.stem)?.forEach(({ termIndex, stems }) => {
+        for (let offset = 1; offset < stems.length; offset++) {
+          const next = tokens[index + offset];
+          const previous = tokens[index + offset - 1];
+          if (!next || next.stem !== stems[offset] || !/^\s+$/.test(text.slice(previous.end, next.start))) return;
+        }
+        onMatch(termIndex, token.start, tokens[index + stems.length - 1].end);
+      });
+    });
+  }
+
+  // The term whose stems equal the phrase's, if any
+  lookup(phrase: string): number | undefined {
+    const stems = tokenize(phrase, this.stemmer).map(token => token.stem);
+    return this.byFirstStem.get(stems[0])
+      ?.find(entry => entry.stems.length === stems.length && entry.stems.every((stem, i) => stem === stems[i]))
+      ?.termIndex;
+  }
+}
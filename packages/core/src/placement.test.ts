@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { clampToViewport, placeCard, rectAround, type PlacementRect } from './placement.js';
+
+const viewport = { width: 1000, height: 800 };
+const size = { width: 200, height: 100 };
+const options = { gap: 4, padding: 8 };
+
+function anchorAt(left: number, top: number): PlacementRect {
+  return { left, top, width: 60, height: 20 };
+}
+
+describe('placeCard', () => {
+  it('places the card below the anchor, centered on it', () => {
+    expect(placeCard(anchorAt(400, 300), size, viewport, options)).toEqual({
+      position: { x: 430, y: 374 },
+      side: 'bottom',
+    });
+  });
+
+  it('follows the order of the preferred sides', () => {
+    const placement = placeCard(anchorAt(400, 300), size, viewport, { ...options, sides: ['right', 'bottom'] });
+    expect(placement).toEqual({ position: { x: 564, y: 310 }, side: 'right' });
+  });
+
+  it('flips to the next side when the card does not fit', () => {
+    const placement = placeCard(anchorAt(400, 720), size, viewport, { ...options, sides: ['bottom', 'top'] });
+    expect(placement).toEqual({ position: { x: 430, y: 666 }, side: 'top' });
+  });
+
+  it('shifts along the anchor to stay inside the viewport', () => {
+    const placement = placeCard(anchorAt(0, 300), size, viewport, options);
+    expect(placement).toEqual({ position: { x: 108, y: 374 }, side: 'bottom' });
+  });
+
+  it('prefers a side where the card does not cover the cards to avoid', () => {
+    const sibling = rectAround({ x: 430, y: 374 }, size);
+    const placement = placeCard(anchorAt(400, 300), size, viewport, { ...options, sides: ['bottom', 'top'], avoid: [sibling] });
+    expect(placement).toEqual({ position: { x: 430, y: 246 }, side: 'top' });
+  });
+
+  it('takes the side with the least overlap when every side overlaps', () => {
+    const avoid = [
+      rectAround({ x: 430, y: 374 }, size),
+      rectAround({ x: 564, y: 310 }, size),
+      rectAround({ x: 430, y: 246 }, size),
+      { left: 250, top: 300, width: 10, height: 10 },
+    ];
+    expect(placeCard(anchorAt(400, 300), size, viewport, { ...options, avoid }).side).toBe('left');
+  });
+
+  it('clamps into the viewport on the roomiest side when no side has room', () => {
+    const tiny = { width: 300, height: 200 };
+    const placement = placeCard({ left: 100, top: 100, width: 100, height: 100 }, { width: 260, height: 260 }, tiny, options);
+    expect(placement).toEqual({ position: { x: 162, y: 100 }, side: 'right' });
+  });
+});
+
+describe('clampToViewport', () => {
+  it('moves the card as little as needed', () => {
+    expect(clampToViewport({ x: -50, y: 900 }, size, viewport, 8)).toEqual({ x: 108, y: 742 });
+    expect(clampToViewport({ x: 500, y: 400 }, size, viewport, 8)).toEqual({ x: 500, y: 400 });
+  });
+
+  it('centers a card larger than the viewport', () => {
+    expect(clampToViewport({ x: 0, y: 0 }, { width: 1200, height: 900 }, viewport, 8)).toEqual({ x: 500, y: 400 });
+  });
+});
@@ -0,0 +1,153 @@
+// Card placement against an anchor (usually the trigger) inside the viewport.
+// Positions are card centers, matching CardState.position.
+
+export type PlacementSide = 'bottom' | 'right' | 'top' | 'left';
+
+export interface PlacementSize {
+  width: number;
+  height: number;
+}
+
+export interface PlacementRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PlacementOptions {
+  // Tried in order; the first side where the card fits without overlapping wins
+  sides?: readonly PlacementSide[];
+  // Distance between the anchor and the card
+  gap?: number;
+  // Minimum distance between the card and the viewport edges
+  padding?: number;
+  // Other cards the new one should not cover, e.g. its siblings
+  avoid?: readonly PlacementRect[];
+}
+
+export interface Placement {
+  position: { x: number; y: number };
+  side: PlacementSide;
+}
+
+// Used until a card has been rendered and measured (w-64, typical content height)
+export const DEFAULT_CARD_SIZE: PlacementSize = { width: 256, height: 400 };
+
+// Smallest size a card can be resized to
+export const MIN_USER_CARD_SIZE: PlacementSize = { width: 192, height: 120 };
+
+export const DEFAULT_PLACEMENT_SIDES: readonly PlacementSide[] = ['bottom', 'right', 'top', 'left'];
+
+export function getViewportSize(): PlacementSize {
+  if (typeof window === 'undefined') return { width: Infinity, height: Infinity };
+  return { width: window.innerWidth, height: window.innerHeight };
+}
+
+export function toPlacementRect(rect: { left: number; top: number; width: number; height: number }): PlacementRect {
+  return { left: rect.left, top: rect.top, width: rect.width, height: rect.height };
+}
+
+export function rectAround(center: { x: number; y: number }, size: PlacementSize): PlacementRect {
+  return { left: center.x - size.width / 2, top: center.y - size.height / 2, width: size.width, height: size.height };
+}
+
+function overlapArea(a: PlacementRect, b: PlacementRect): number {
+  const width = Math.min(a.left + a.width, b.left + b.width) - Math.max(a.left, b.left);
+  const height = Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  // A card larger than the viewport is centered rather than pinned to one edge
+  if (min > max) return (min + max) / 2;
+  return Math.max(min, Math.min(max, value));
+}
+
+// Keeps the whole card inside the viewport, moving it as little as possible
+export function clampToViewport(
+  center: { x: number; y: number },
+  size: PlacementSize,
+  viewport: PlacementSize = getViewportSize(),
+  padding = 0
+): { x: number; y: number } {
+  return {
+    x: clamp(center.x, padding + size.width / 2, viewport.width - padding - size.width / 2),
+    y: clamp(center.y, padding + size.height / 2, viewport.height - padding - size.height / 2),
+  };
+}
+
+// Room left for the card on one side of the anchor
+function spaceOn(side: PlacementSide, anchor: PlacementRect, viewport: PlacementSize, gap: number, padding: number): number {
+  switch (side) {
+    case 'bottom': return viewport.height - padding - (anchor.top + anchor.height + gap);
+    case 'top': return anchor.top - gap - padding;
+    case 'right': return viewport.width - padding - (anchor.left + anchor.width + gap);
+    case 'left': return anchor.left - gap - padding;
+  }
+}
+
+// Card center flush against `side` of the anchor, centered on the other axis
+function centerOn(side: PlacementSide, anchor: PlacementRect, size: PlacementSize, gap: number): { x: number; y: number } {
+  const anchorX = anchor.left + anchor.width / 2;
+  const anchorY = anchor.top + anchor.height / 2;
+  switch (side) {
+    case 'bottom': return { x: anchorX, y: anchor.top + anchor.height + gap + size.height / 2 };
+    case 'top': return { x: anchorX, y: anchor.top - gap - size.height / 2 };
+    case 'right': return { x: anchor.left + anchor.width + gap + size.width / 2, y: anchorY };
+    case 'left': return { x: anchor.left - gap - size.width / 2, y: anchorY };
+  }
+}
+
+// Shifts along the side's cross axis only, so the card never slides over its anchor
+function shiftOnCrossAxis(
+  side: PlacementSide,
+  center: { x: number; y: number },
+  size: PlacementSize,
+  viewport: PlacementSize,
+  padding: number
+): { x: number; y: number } {
+  const clamped = clampToViewport(center, size, viewport, padding);
+  return side === 'bottom' || side === 'top'
+    ? { x: clamped.x, y: center.y }
+    : { x: center.x, y: clamped.y };
+}
+
+// Tries each preferred side (flip), shifts the card along the anchor to stay on screen,
+// and prefers sides where it doesn't cover the cards in `avoid`. When no side has room
+// the side with the most space is used and the card is clamped into the viewport.
+export function placeCard(
+  anchor: PlacementRect,
+  size: PlacementSize,
+  viewport: PlacementSize = getViewportSize(),
+  options: PlacementOptions = {}
+): Placement {
+  const { sides = DEFAULT_PLACEMENT_SIDES, gap = 1, padding = 8, avoid = [] } = options;
+  const candidates = sides.length > 0 ? sides : DEFAULT_PLACEMENT_SIDES;
+
+  let best: (Placement & { overlap: number }) | null = null;
+
+  for (const side of candidates) {
+    const needed = side === 'bottom' || side === 'top' ? size.height : size.width;
+    if (spaceOn(side, anchor, viewport, gap, padding) < needed) continue;
+
+    const position = shiftOnCrossAxis(side, centerOn(side, anchor, size, gap), size, viewport, padding);
+    const rect = rectAround(position, size);
+    const overlap = avoid.reduce((total, other) => total + overlapArea(rect, other), 0);
+
+    if (overlap === 0) return { position, side };
+    if (!best || overlap < best.overlap) {
+      best = { position, side, overlap };
+    }
+  }
+
+  if (best) return { position: best.position, side: best.side };
+
+  const roomiest = [...candidates].sort(
+    (a, b) => spaceOn(b, anchor, viewport, gap, padding) - spaceOn(a, anchor, viewport, gap, padding)
+  )[0];
+  return {
+    position: clampToViewport(centerOn(roomiest, anchor, size, gap), size, viewport, padding),
+    side: roomiest,
+  };
+}
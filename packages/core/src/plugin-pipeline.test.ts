@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PluginPipeline } from './plugin-pipeline.js';
+import type { HoverEngine } from './hover-engine.js';
+import type { CardState, OpenCardRequest, PluginContext } from './types.js';
+
+const context: PluginContext = { engine: {} as HoverEngine, term: 'rate' };
+const request = { term: 'rate', position: { x: 0, y: 0 } } as OpenCardRequest;
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('PluginPipeline', () => {
+  it('runs config plugins before runtime plugins, each seeing the previous result', async () => {
+    const pipeline = new PluginPipeline();
+    pipeline.add({ name: 'runtime', beforeResolve: term => `${term}:runtime` });
+    pipeline.setConfigPlugins([{ name: 'config', beforeResolve: term => `${term}:config` }]);
+
+    await expect(pipeline.beforeResolve('rate', context)).resolves.toBe('rate:config:runtime');
+  });
+
+  it('stops running a plugin once it is removed', async () => {
+    const pipeline = new PluginPipeline();
+    const remove = pipeline.add({ name: 'upper', beforeResolve: term => term.toUpperCase() });
+    remove();
+
+    await expect(pipeline.beforeResolve('rate', context)).resolves.toBe('rate');
+  });
+
+  it('merges the fields beforeOpen returns into the request', async () => {
+    const pipeline = new PluginPipeline();
+    pipeline.add({ name: 'move', beforeOpen: () => ({ position: { x: 5, y: 6 } }) });
+    pipeline.add({ name: 'rename', beforeOpen: open => ({ term: `${open.term}s` }) });
+
+    await expect(pipeline.beforeOpen(request, context)).resolves.toMatchObject({
+      term: 'rates',
+      position: { x: 5, y: 6 },
+    });
+  });
+
+  it('cancels the open when beforeOpen returns false', async () => {
+    const pipeline = new PluginPipeline();
+    const later = vi.fn();
+    pipeline.add({ name: 'cancel', beforeOpen: () => false });
+    pipeline.add({ name: 'later', beforeOpen: later });
+
+    await expect(pipeline.beforeOpen(request, context)).resolves.toBeNull();
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('skips the sources when beforeResolve returns false', async () => {
+    const pipeline = new PluginPipeline();
+    pipeline.add({ name: 'skip', beforeResolve: () => false });
+
+    await expect(pipeline.beforeResolve('rate', context)).resolves.toBeNull();
+  });
+
+  it('lets any plugin veto a close', () => {
+    const pipeline = new PluginPipeline();
+    pipeline.add({ name: 'allow', beforeClose: () => true });
+    pipeline.add({ name: 'veto', beforeClose: () => false });
+
+    expect(pipeline.beforeClose({} as CardState, context)).toBe(false);
+  });
+
+  it('logs a throwing hook, routes the error to onError and carries on', async () => {
+    const pipeline = new PluginPipeline();
+    const error = new Error('broken');
+    const onError = vi.fn();
+    pipeline.add({ name: 'broken', beforeResolve: () => { throw error; }, beforeClose: () => { throw error; } });
+    pipeline.add({ name: 'upper', beforeResolve: term => term.toUpperCase(), onError });
+
+    await expect(pipeline.beforeResolve('rate', context)).resolves.toBe('RATE');
+    expect(pipeline.beforeClose({} as CardState, context)).toBe(true);
+    expect(console.warn).toHaveBeenCalledWith('Plugin "broken" failed in beforeResolve:', error);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(error, context);
+  });
+
+  it('survives a throwing onError', () => {
+    const pipeline = new PluginPipeline();
+    pipeline.add({ name: 'broken', onError: () => { throw new Error('worse'); } });
+
+    expect(() => pipeline.onError(new Error('bad'), context)).not.toThrow();
+    expect(console.warn).toHaveBeenCalledWith('Plugin "broken" failed in onError:', expect.any(Error));
+  });
+});
@@ -0,0 +1,122 @@
+import type {
+  CardState,
+  DataSourceContent,
+  HoverEnginePlugin,
+  OpenCardRequest,
+  PluginContext,
+} from './types.js';
+
+// Runs plugin hooks in order. Config plugins come first, then those added with use().
+// A throwing hook is reported and skipped so one bad plugin can't wedge the engine.
+export class PluginPipeline {
+  private configPlugins: HoverEnginePlugin[] = [];
+  private runtimePlugins: HoverEnginePlugin[] = [];
+
+  setConfigPlugins(plugins: HoverEnginePlugin[]): void {
+    this.configPlugins = plugins;
+  }
+
+  add(plugin: HoverEnginePlugin): () => void {
+    this.runtimePlugins.push(plugin);
+    return () => {
+      this.runtimePlugins = this.runtimePlugins.filter(p => p !== plugin);
+    };
+  }
+
+  clear(): void {
+    this.configPlugins = [];
+    this.runtimePlugins = [];
+  }
+
+  getPlugins(): HoverEnginePlugin[] {
+    return [...this.configPlugins, ...this.runtimePlugins];
+  }
+
+  async beforeOpen(request: OpenCardRequest, context: PluginContext): Promise<OpenCardRequest | null> {
+    let current = request;
+    for (const plugin of this.getPlugins()) {
+      if (!plugin.beforeOpen) continue;
+      const result = await this.call(plugin, 'beforeOpen', context, () =>
+        plugin.beforeOpen!(current, { ...context, term: current.term })
+      );
+      if (result === false) return null;
+      if (result) current = { ...current, ...result };
+    }
+    return current;
+  }
+
+  async beforeResolve(term: string, context: PluginContext): Promise<string | null> {
+    let current = term;
+    for (const plugin of this.getPlugins()) {
+      if (!plugin.beforeResolve) continue;
+      const result = await this.call(plugin, 'beforeResolve', context, () =>
+        plugin.beforeResolve!(current, { ...context, term: current })
+      );
+      if (result === false) return null;
+      if (typeof result === 'string') current = result;
+    }
+    return current;
+  }
+
+  async afterResolve(content: DataSourceContent | null, context: PluginContext): Promise<DataSourceContent | null> {
+    let current = content;
+    for (const plugin of this.getPlugins()) {
+      if (!plugin.afterResolve) continue;
+      const result = await this.call(plugin, 'afterResolve', context, () => plugin.afterResolve!(current, context));
+      if (result !== undefined) current = result;
+    }
+    return current;
+  }
+
+  async transformContent(content: DataSourceContent, context: PluginContext): Promise<DataSourceContent> {
+    let current = content;
+    for (const plugin of this.getPlugins()) {
+      if (!plugin.transformContent) continue;
+      const result = await this.call(plugin, 'transformContent', context, () => plugin.transformContent!(current, context));
+      if (result) current = result;
+    }
+    return current;
+  }
+
+  beforeClose(card: CardState, context: PluginContext): boolean {
+    for (const plugin of this.getPlugins()) {
+      if (!plugin.beforeClose) continue;
+      try {
+        if (plugin.beforeClose(card, context) === false) return false;
+      } catch (error) {
+        this.reportHookError(plugin, 'beforeClose', error, context);
+      }
+    }
+    return true;
+  }
+
+  onError(error: unknown, context: PluginContext): void {
+    for (const plugin of this.getPlugins()) {
+      if (!plugin.onError) continue;
+      try {
+        plugin.onError(error, context);
+      } catch (hookError) {
+        console.warn(`Plugin "${plugin.name}" failed in onError:`, hookError);
+      }
+    }
+  }
+
+  private async call<T>(
+    plugin: HoverEnginePlugin,
+    hook: keyof HoverEnginePlugin,
+    context: PluginContext,
+    run: () => T | Promise<T>
+  ): Promise<T | undefined> {
+    try {
+      return await run();
+    } catch (error) {
+      this.reportHookError(plugin, hook, error, context);
+      return undefined;
+    }
+  }
+
+  private reportHookError(plugin: HoverEnginePlugin, hook: keyof HoverEnginePlugin, error: unknown, context: PluginContext): void {
+    console.warn(`Plugin "${plugin.name}" failed in ${String(hook)}:`, error);
+    this.onError(error, context);
+  }
+}
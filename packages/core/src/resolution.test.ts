@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resolveWithStrategy, type ResolutionRequest } from './resolution.js';
+import { SourceResolutionError } from './errors.js';
+import { ResolutionConfigSchema, type DataSource, type DataSourceContent, type ResolutionConfig } from './types.js';
+
+function source(name: string, resolve: DataSource['resolve']): DataSource {
+  return { name, resolve: vi.fn(resolve) };
+}
+
+function answer(name: string, content: DataSourceContent | null, delayMs = 0): DataSource {
+  return source(name, () => new Promise(resolve => setTimeout(() => resolve(content), delayMs)));
+}
+
+function failing(name: string): DataSource {
+  return source(name, async () => { throw new Error(`${name} is down`); });
+}
+
+function request(signal = new AbortController().signal): ResolutionRequest {
+  return { signal, parsed: { key: 'rate' } };
+}
+
+function config(overrides: Partial<ResolutionConfig>): ResolutionConfig {
+  return ResolutionConfigSchema.parse(overrides);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('sequential', () => {
+  it('returns the first hit and skips the remaining sources', async () => {
+    const later = answer('later', { title: 'Later' });
+    const content = await resolveWithStrategy(
+      [answer('empty', null), answer('glossary', { title: 'Rate' }), later],
+      'rate',
+      request(),
+      config({})
+    );
+
+    expect(content).toEqual({ title: 'Rate', meta: { sources: ['glossary'] } });
+    expect(later.resolve).not.toHaveBeenCalled();
+  });
+
+  it('asks sources in precedence order', async () => {
+    const content = await resolveWithStrategy(
+      [answer('docs', { title: 'Docs' }), answer('glossary', { title: 'Glossary' })],
+      'rate',
+      request(),
+      config({ precedence: ['glossary'] })
+    );
+
+    expect(content?.title).toBe('Glossary');
+  });
+
+  it('falls through a failing source', async () => {
+    const content = await resolveWithStrategy(
+      [failing('broken'), answer('glossary', { title: 'Rate' })],
+      'rate',
+      request(),
+      config({})
+    );
+
+    expect(content?.title).toBe('Rate');
+  });
+
+  it('reports a failure instead of a miss when a source failed', async () => {
+    const lookup = resolveWithStrategy([failing('broken'), answer('empty', null)], 'rate', request(), config({}));
+
+    await expect(lookup).rejects.toBeInstanceOf(SourceResolutionError);
+    await expect(lookup).rejects.toMatchObject({ source: 'broken' });
+  });
+
+  it('returns null when every source misses', async () => {
+    await expect(resolveWithStrategy([answer('empty', null)], 'rate', request(), config({}))).resolves.toBeNull();
+  });
+});
+
+describe('race', () => {
+  it('returns the fastest hit and aborts the other sources', async () => {
+    let slowSignal: AbortSignal | undefined;
+    const slow = source('slow', (_term, options) => {
+      slowSignal = options?.signal;
+      return new Promise(() => {});
+    });
+
+    const content = await resolveWithStrategy(
+      [slow, answer('fast', { title: 'Fast' }, 5)],
+      'rate',
+      request(),
+      config({ strategy: 'race' })
+    );
+
+    expect(content).toEqual({ title: 'Fast', meta: { sources: ['fast'] } });
+    expect(slowSignal?.aborted).toBe(true);
+  });
+
+  it('waits past misses and failures for a hit', async () => {
+    const content = await resolveWithStrategy(
+      [answer('empty', null), failing('broken'), answer('glossary', { title: 'Rate' }, 10)],
+      'rate',
+      request(),
+      config({ strategy: 'race' })
+    );
+
+    expect(content?.title).toBe('Rate');
+  });
+
+  it('rejects when the caller aborts', async () => {
+    const controller = new AbortController();
+    const lookup = resolveWithStrategy(
+      [source('stuck', (_term, options) => new Promise((_, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(options.signal!.reason));
+      }))],
+      'rate',
+      request(controller.signal),
+      config({ strategy: 'race' })
+    );
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(lookup).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('merge', () => {
+  it('combines every answer with earlier sources winning conflicts', async () => {
+    const content = await resolveWithStrategy(
+      [
+        answer('docs', { title: 'Docs rate', markdown: 'From docs', links: [{ term: 'fee' }], meta: { owner: 'docs' } }),
+        answer('glossary', { title: 'Rate', html: '<p>Rate</p>', links: [{ term: 'fee', label: 'Fee' }, { term: 'APR' }], meta: { owner: 'glossary', tier: 1 } }),
+      ],
+      'rate',
+      request(),
+      config({ strategy: 'merge', precedence: ['glossary'] })
+    );
+
+    expect(content).toEqual({
+      title: 'Rate',
+      html: '<p>Rate</p>',
+      markdown: 'From docs',
+      links: [{ term: 'fee', label: 'Fee' }, { term: 'APR' }],
+      meta: { owner: 'glossary', tier: 1, sources: ['glossary', 'docs'] },
+    });
+  });
+
+  it('ignores failing sources when another answered', async () => {
+    const content = await resolveWithStrategy(
+      [failing('broken'), answer('glossary', { title: 'Rate' })],
+      'rate',
+      request(),
+      config({ strategy: 'merge' })
+    );
+
+    expect(content?.meta).toEqual({ sources: ['glossary'] });
+  });
+
+  it('reports a failure when nothing answered and a source failed', async () => {
+    await expect(
+      resolveWithStrategy([failing('broken'), answer('empty', null)], 'rate', request(), config({ strategy: 'merge' }))
+    ).rejects.toBeInstanceOf(SourceResolutionError);
+  });
+});
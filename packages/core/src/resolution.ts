@@ -0,0 +1,193 @@
+import type { DataSource, DataSourceContent, ParsedTerm, ResolutionConfig } from './types.js';
+import { SourceResolutionError } from './errors.js';
+
+export interface ResolutionRequest {
+  signal: AbortSignal;
+  parsed: ParsedTerm;
+}
+
+// Records which sources supplied the content without mutating the source's object
+function withSources(content: DataSourceContent, sources: string[]): DataSourceContent {
+  return { ...content, meta: { ...content.meta, sources } };
+}
+
+function warnFailure(source: DataSource, term: string, error: unknown): SourceResolutionError {
+  console.warn(`Source "${source.name}" failed to resolve term "${term}":`, error);
+  return new SourceResolutionError(source.name, term, error);
+}
+
+// Child controller that follows the parent signal but can also be aborted on its own
+function linkedController(signal: AbortSignal): { controller: AbortController; unlink: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  if (signal.aborted) {
+    onAbort();
+  } else {
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+  return { controller, unlink: () => signal.removeEventListener('abort', onAbort) };
+}
+
+// Ask sources one at a time and return the first hit.
+async function resolveSequential(sources: DataSource[], term: string, request: ResolutionRequest): Promise<DataSourceContent | null> {
+  const { signal } = request;
+  // A miss is only trustworthy (and cacheable) if no source failed along the way
+  let lastError: SourceResolutionError | null = null;
+
+  for (const source of sources) {
+    signal.throwIfAborted();
+    try {
+      const content = await source.resolve(term, request);
+      if (content) {
+        return withSources(content, [source.name]);
+      }
+    } catch (error) {
+      if (signal.aborted) throw error;
+      lastError = warnFailure(source, term, error);
+    }
+  }
+
+  if (lastError) {
+    throw lastError;
+  }
+  return null;
+}
+
+// Ask every source at once; the fastest non-null answer wins and the rest are aborted.
+function resolveRace(sources: DataSource[], term: string, request: ResolutionRequest): Promise<DataSourceContent | null> {
+  const { signal } = request;
+  signal.throwIfAborted();
+  if (sources.length === 0) return Promise.resolve(null);
+
+  const { controller, unlink } = linkedController(signal);
+
+  return new Promise<DataSourceContent | null>((resolve, reject) => {
+    let pending = sources.length;
+    let settled = false;
+    let lastError: SourceResolutionError | null = null;
+
+    const finish = (settle: () => void) => {
+      settled = true;
+      unlink();
+      settle();
+    };
+
+    const onMiss = () => {
+      if (--pending > 0) return;
+      finish(() => (lastError ? reject(lastError) : resolve(null)));
+    };
+
+    sources.forEach(source => {
+      Promise.resolve()
+        .then(() => source.resolve(term, { ...request, signal: controller.signal }))
+        .then(
+          content => {
+            if (settled) return;
+            if (!content) {
+              onMiss();
+              return;
+            }
+            finish(() => {
+              controller.abort();
+              resolve(withSources(content, [source.name]));
+            });
+          },
+          error => {
+            if (settled) return;
+            if (signal.aborted) {
+              finish(() => reject(error));
+              return;
+            }
+            lastError = warnFailure(source, term, error);
+            onMiss();
+          }
+        );
+    });
+  });
+}
+
+// Ask every source and combine their answers; earlier sources win conflicts.
+async function resolveMerge(sources: DataSource[], term: string, request: ResolutionRequest): Promise<DataSourceContent | null> {
+  const { signal } = request;
+  signal.throwIfAborted();
+
+  const results = await Promise.allSettled(
+    sources.map(source => Promise.resolve().then(() => source.resolve(term, request)))
+  );
+  signal.throwIfAborted();
+
+  const found: Array<{ source: DataSource; content: DataSourceContent }> = [];
+  let lastError: SourceResolutionError | null = null;
+
+  results.forEach((result, index) => {
+    const source = sources[index];
+    if (result.status === 'rejected') {
+      lastError = warnFailure(source, term, result.reason);
+    } else if (result.value) {
+      found.push({ source, content: result.value });
+    }
+  });
+
+  if (found.length === 0) {
+    if (lastError) throw lastError;
+    return null;
+  }
+
+  const pick = <K extends 'title' | 'html' | 'markdown'>(key: K) =>
+    found.find(({ content }) => content[key])?.content[key];
+
+  const links = new Map<string, { term: string; label?: string }>();
+  found.forEach(({ content }) => {
+    content.links?.forEach(link => {
+      if (!links.has(link.term)) links.set(link.term, link);
+    });
+  });
+
+  // Apply lowest precedence first so higher-precedence keys overwrite
+  const meta = found.reduceRight<Record<string, unknown>>((acc, { content }) => ({ ...acc, ...content.meta }), {});
+
+  return withSources(
+    {
+      title: pick('title') ?? term,
+      html: pick('html'),
+      markdown: pick('markdown'),
+      links: links.size > 0 ? Array.from(links.values()) : undefined,
+      meta,
+    },
+    found.map(({ source }) => source.name)
+  );
+}
+
+// Sources named in `precedence` come first, in that order; the rest keep config order
+function orderByPrecedence(sources: DataSource[], precedence: string[]): DataSource[] {
+  if (precedence.length === 0) return sources;
+
+  const rank = (source: DataSource) => {
+    const index = precedence.indexOf(source.name);
+    return index === -1 ? precedence.length : index;
+  };
+
+  return sources
+    .map((source, index) => ({ source, index }))
+    .sort((a, b) => rank(a.source) - rank(b.source) || a.index - b.index)
+    .map(({ source }) => source);
+}
+
+export function resolveWithStrategy(
+  sources: DataSource[],
+  term: string,
+  request: ResolutionRequest,
+  config: ResolutionConfig
+): Promise<DataSourceContent | null> {
+  const ordered = orderByPrecedence(sources, config.precedence);
+
+  switch (config.strategy) {
+    case 'race':
+      return resolveRace(ordered, term, request);
+    case 'merge':
+      return resolveMerge(ordered, term, request);
+    case 'sequential':
+    default:
+      return resolveSequential(ordered, term, request);
+  }
+}
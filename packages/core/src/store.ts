@@ -0,0 +1,51 @@
+import type { CardState } from './types.js';
+
+// Immutable view of the engine's cards. A new snapshot (and new objects for the
+// cards that changed) is produced on every update, so consumers can compare by reference.
+export interface HoverEngineSnapshot {
+  // Open cards in the order they were opened
+  readonly cards: readonly CardState[];
+  readonly version: number;
+}
+
+export type SnapshotListener = () => void;
+
+export const EMPTY_SNAPSHOT: HoverEngineSnapshot = Object.freeze({ cards: Object.freeze([]), version: 0 });
+
+export function selectCards(snapshot: HoverEngineSnapshot): readonly CardState[] {
+  return snapshot.cards;
+}
+
+export function selectCard(snapshot: HoverEngineSnapshot, cardId: string): CardState | undefined {
+  return snapshot.cards.find(card => card.id === cardId);
+}
+
+// Deepest card wins; among equals, the most recently opened
+export function selectTopCard(snapshot: HoverEngineSnapshot): CardState | undefined {
+  let top: CardState | undefined;
+  for (const card of snapshot.cards) {
+    if (!top || card.level >= top.level) {
+      top = card;
+    }
+  }
+  return top;
+}
+
+export function selectTopCardId(snapshot: HoverEngineSnapshot): string | null {
+  return selectTopCard(snapshot)?.id ?? null;
+}
+
+// The card and its ancestors, root first; empty if the card isn't open
+export function selectCardChain(snapshot: HoverEngineSnapshot, cardId: string): CardState[] {
+  const chain: CardState[] = [];
+  let current = selectCard(snapshot, cardId);
+  while (current) {
+    chain.unshift(current);
+    current = current.parentId ? selectCard(snapshot, current.parentId) : undefined;
+  }
+  return chain;
+}
+
+export function selectHasChildren(snapshot: HoverEngineSnapshot, cardId: string): boolean {
+  return snapshot.cards.some(card => card.parentId === cardId);
+}
@@ -0,0 +1,60 @@
+// @vitest-environment happy-dom
+import { bench, describe } from 'vitest';
+import { TermMatcher } from './term-matcher.js';
+import { HighlightingConfigSchema } from './types.js';
+
+// Scan cost should track the text, not the glossary: the first group should report
+// roughly equal times, the second times that double with the text. aho-corasick.test.ts
+// checks the same by counting the states a scan visits.
+
+const WORDS = ['interest', 'rate', 'compounding', 'daily', 'principal', 'the', 'of', 'and', 'loan', 'fee'];
+
+function createMatcher(termCount: number): TermMatcher {
+  const matcher = new TermMatcher(HighlightingConfigSchema.parse({}));
+  for (let i = 0; i < termCount; i++) {
+    matcher.addTerm(`term${i} rate`, [`alias${i}`, `other${i}`]);
+  }
+  matcher.addTerm('interest rate');
+  return matcher;
+}
+
+function createText(length: number): string {
+  let text = '';
+  for (let i = 0; text.length < length; i++) {
+    text += `${WORDS[i % WORDS.length]} ${i % 97 === 0 ? 'term42 rate ' : ''}`;
+  }
+  return text.slice(0, length);
+}
+
+function createElement(text: string): HTMLElement {
+  const element = document.createElement('div');
+  element.textContent = text;
+  return element;
+}
+
+describe('glossary size (20k characters of text)', () => {
+  const element = createElement(createText(20_000));
+
+  for (const termCount of [100, 1_000, 10_000]) {
+    const matcher = createMatcher(termCount);
+    // Compile outside the measurement
+    matcher.findMatches(element);
+
+    bench(`${termCount} terms`, () => {
+      matcher.findMatches(element);
+    });
+  }
+});
+
+describe('text length (3000 terms)', () => {
+  const matcher = createMatcher(3_000);
+
+  for (const length of [10_000, 20_000, 40_000]) {
+    const element = createElement(createText(length));
+    matcher.findMatches(element);
+
+    bench(`${length} characters`, () => {
+      matcher.findMatches(element);
+    });
+  }
+});
@@ -0,0 +1,274 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TermMatcher } from './term-matcher.js';
+import { AhoCorasick } from './aho-corasick.js';
+import { HighlightingConfigSchema, type HighlightingConfig } from './types.js';
+
+// Counts how often the matcher compiles its automaton
+vi.mock('./aho-corasick.js', async importOriginal => {
+  const { AhoCorasick: Original } = await importOriginal<typeof import('./aho-corasick.js')>();
+  return { AhoCorasick: vi.fn((patterns: readonly string[]) => new Original(patterns)) };
+});
+
+function createMatcher(config: Partial<HighlightingConfig> = {}): TermMatcher {
+  return new TermMatcher(HighlightingConfigSchema.parse(config));
+}
+
+function createElement(html: string): HTMLElement {
+  const element = document.createElement('div');
+  element.innerHTML = html;
+  return element;
+}
+
+// [term, matched text] for every match in the element
+function findMatches(matcher: TermMatcher, html: string): [string, string][] {
+  return matcher.findMatches(createElement(html)).map(match => [match.term, match.textNode.data.slice(match.start, match.end)]);
+}
+
+beforeEach(() => {
+  vi.mocked(AhoCorasick).mockClear();
+});
+
+describe('TermMatcher', () => {
+  it('finds every term in one pass, ignoring case', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('Interest rate');
+    matcher.addTerm('principal');
+
+    expect(findMatches(matcher, 'The <b>PRINCIPAL</b> and the interest rate of the principal.')).toEqual([
+      ['principal', 'PRINCIPAL'],
+      ['interest rate', 'interest rate'],
+      ['principal', 'principal'],
+    ]);
+  });
+
+  it('only matches whole words', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('rate');
+
+    expect(findMatches(matcher, 'rates, pirate, rate.')).toEqual([['rate', 'rate']]);
+  });
+
+  it('matches anywhere with the explicit-only strategy', () => {
+    const matcher = createMatcher({ strategy: 'explicit-only' });
+    matcher.addTerm('rate');
+
+    expect(findMatches(matcher, 'pirate')).toEqual([['rate', 'rate']]);
+  });
+
+  it('reports aliases under their canonical term', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('annual percentage rate', ['APR']);
+
+    expect(findMatches(matcher, 'The APR is fixed.')).toEqual([['annual percentage rate', 'APR']]);
+    expect(matcher.getCanonicalTerm('apr')).toBe('annual percentage rate');
+  });
+
+  it('gives an alias shared by several terms to the first one', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('annual percentage rate', ['APR']);
+    matcher.addTerm('annual percentage yield', ['APR', 'APY']);
+
+    expect(matcher.getCanonicalTerm('APR')).toBe('annual percentage rate');
+    expect(matcher.getCanonicalTerm('APY')).toBe('annual percentage yield');
+  });
+
+  it('skips excluded elements and existing hover terms', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('rate');
+
+    expect(findMatches(matcher, '<code>rate</code> <span data-hover-term="x">rate</span> rate')).toHaveLength(1);
+  });
+
+  it('compiles once until the terms change', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('interest rate', ['rate']);
+    const element = createElement('interest rate');
+
+    matcher.findMatches(element);
+    matcher.findMatches(element);
+    matcher.addTerm('interest rate', ['rate']);
+    matcher.findMatches(element);
+    expect(AhoCorasick).toHaveBeenCalledTimes(1);
+
+    matcher.addTerm('interest rate', ['rate', 'yield']);
+    matcher.findMatches(element);
+    expect(AhoCorasick).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets everything on clear', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('interest rate', ['rate']);
+    findMatches(matcher, 'rate');
+    matcher.clear();
+
+    expect(findMatches(matcher, 'interest rate')).toEqual([]);
+    expect(matcher.getCanonicalTerm('rate')).toBe('rate');
+  });
+});
+
+describe('TermMatcher overlaps', () => {
+  it('keeps the longest of overlapping matches by default', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('interest');
+    matcher.addTerm('interest rate');
+    matcher.addTerm('rate cap');
+
+    expect(findMatches(matcher, 'the interest rate cap')).toEqual([['interest rate', 'interest rate']]);
+  });
+
+  it('keeps the term added first with the priority policy', () => {
+    const matcher = createMatcher({ overlapPolicy: 'priority' });
+    matcher.addTerm('rate cap');
+    matcher.addTerm('interest rate');
+
+    expect(findMatches(matcher, 'the interest rate cap')).toEqual([['rate cap', 'rate cap']]);
+  });
+
+  it('keeps every match that does not overlap', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('rate');
+
+    expect(findMatches(matcher, 'rate rate rate')).toHaveLength(3);
+  });
+});
+
+describe('TermMatcher Unicode text', () => {
+  it('finds word boundaries in any script', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('über');
+    matcher.addTerm('ставка');
+
+    expect(findMatches(matcher, 'über überall, ставка ставками')).toEqual([
+      ['über', 'über'],
+      ['ставка', 'ставка'],
+    ]);
+  });
+
+  it('folds case with the locale rules', () => {
+    const matcher = createMatcher({ locale: 'tr' });
+    matcher.addTerm('istanbul');
+
+    expect(findMatches(matcher, 'İSTANBUL ISTANBUL')).toEqual([['istanbul', 'İSTANBUL']]);
+  });
+
+  it('treats the Greek sigma forms as one letter', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('λόγος');
+
+    expect(findMatches(matcher, 'ΛΌΓΟΣ')).toEqual([['λόγος', 'ΛΌΓΟΣ']]);
+  });
+
+  it('uses the locale of the nearest lang attribute', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('istanbul');
+
+    expect(findMatches(matcher, 'ISTANBUL <span lang="tr">ISTANBUL İSTANBUL</span>')).toEqual([
+      ['istanbul', 'ISTANBUL'],
+      ['istanbul', 'İSTANBUL'],
+    ]);
+  });
+
+  it('segments languages written without spaces', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('金利');
+
+    expect(findMatches(matcher, '金利が上がる')).toEqual([]);
+    expect(findMatches(matcher, '<p lang="ja">金利が上がる</p>')).toEqual([['金利', '金利']]);
+  });
+});
+
+describe('TermMatcher morphology', () => {
+  it('matches only the literal terms by default', () => {
+    const matcher = createMatcher();
+    matcher.addTerm('mortgage');
+
+    expect(findMatches(matcher, 'mortgages')).toEqual([]);
+  });
+
+  it('matches inflected forms at a lower confidence', () => {
+    const matcher = createMatcher({ morphology: true });
+    matcher.addTerm('mortgage');
+    matcher.addTerm('LTV');
+    matcher.addTerm('amortize');
+
+    const element = createElement('Two mortgages, the LTV’s limit, an amortized mortgage.');
+    const matches = matcher.findMatches(element);
+
+    expect(matches.map(match => [match.term, match.textNode.data.slice(match.start, match.end)])).toEqual([
+      ['mortgage', 'mortgages'],
+      ['ltv', 'LTV’s'],
+      ['amortize', 'amortized'],
+      ['mortgage', 'mortgage'],
+    ]);
+    expect(matches[0].confidence).toBeLessThan(matches[3].confidence);
+    expect(matcher.getCanonicalTerm('Mortgages')).toBe('mortgage');
+  });
+
+  it('keeps a form that is a term of its own', () => {
+    const matcher = createMatcher({ morphology: true });
+    matcher.addTerm('rate');
+    matcher.addTerm('rating');
+
+    expect(findMatches(matcher, 'rates and rating')).toEqual([['rate', 'rates'], ['rating', 'rating']]);
+  });
+
+  it('leaves exact terms uninflected', () => {
+    const matcher = createMatcher({ morphology: true });
+    matcher.addTerm('Bill', [], { exact: true });
+
+    expect(findMatches(matcher, 'Bills and Bill')).toEqual([['bill', 'Bill']]);
+  });
+
+  it('uses the stemmer for the text language', () => {
+    const stemmer = (word: string) => word.replace(/e?n$|e$/, '');
+    const matcher = createMatcher({ morphology: true, stemmers: { de: stemmer } });
+    matcher.addTerm('feste rate');
+
+    expect(findMatches(matcher, 'festen raten <span lang="de">festen raten</span>')).toEqual([
+      ['feste rate', 'festen raten'],
+    ]);
+  });
+});
+
+describe('TermMatcher density limits', () => {
+  function createDenseMatcher(config: Partial<HighlightingConfig>): TermMatcher {
+    const matcher = createMatcher(config);
+    matcher.addTerm('rate');
+    matcher.addTerm('fee');
+    return matcher;
+  }
+
+  it('highlights only the first occurrence of each term', () => {
+    const matcher = createDenseMatcher({ firstOccurrenceOnly: true });
+    expect(findMatches(matcher, 'rate rate <i>fee</i> rate fee')).toEqual([['rate', 'rate'], ['fee', 'fee']]);
+  });
+
+  it('caps the occurrences of each term', () => {
+    const matcher = createDenseMatcher({ maxPerTerm: 2 });
+    expect(findMatches(matcher, 'rate rate fee rate fee fee').map(([term]) => term)).toEqual(['rate', 'rate', 'fee', 'fee']);
+  });
+
+  it('keeps highlights apart, across text nodes too', () => {
+    const matcher = createDenseMatcher({ minDistanceChars: 5 });
+    expect(findMatches(matcher, 'rate fee <b>rate</b> or fee')).toEqual([['rate', 'rate'], ['rate', 'rate']]);
+  });
+
+  it('counts per heading section with the section scope', () => {
+    const html = '<h2>One</h2><p>rate rate</p><h2>Two</h2><p>rate</p>';
+    expect(findMatches(createDenseMatcher({ firstOccurrenceOnly: true }), html)).toHaveLength(1);
+    expect(findMatches(createDenseMatcher({ firstOccurrenceOnly: true, densityScope: 'section' }), html)).toHaveLength(2);
+  });
+
+  it('drops matches below the minimum confidence', () => {
+    const matcher = createDenseMatcher({ minConfidence: 0.95, morphology: true });
+    expect(findMatches(matcher, 'Rate, rates and rate')).toEqual([['rate', 'Rate'], ['rate', 'rate']]);
+  });
+
+  it('counts highlights from an earlier pass', () => {
+    const matcher = createDenseMatcher({ firstOccurrenceOnly: true });
+    const element = createElement('<span data-hoverkit-match="true" data-hoverkit-term="rate">rate</span> rate fee');
+
+    expect(matcher.findMatches(element).map(match => match.term)).toEqual(['fee']);
+  });
+});
@@ -1,125 +1,377 @@
-import type { HighlightingConfig, TermMatch } from './types.js';
+import type { HighlightingConfig, Stemmer, TermMatch, WordBoundaryMode } from './types.js';
+import { AhoCorasick } from './aho-corasick.js';
+import { englishVariants, StemIndex } from './morphology.js';
+import { createWordBoundaryTest, foldCase, toLocaleLowerCase } from './unicode-text.js';
+
+// Inflected forms are less certain than the literal term
+const VARIANT_CONFIDENCE = 0.75;
+
+interface CompiledTerms {
+  automaton: AhoCorasick;
+  terms: string[];
+  canonicalTerms: string[];
+  // The automaton's patterns: the terms themselves, then their inflected forms.
+  // patternTerms maps each pattern to its index in `terms`.
+  patterns: string[];
+  patternTerms: number[];
+  // Folded inflected form -> index in `terms`
+  variants: Map<string, number>;
+  stemIndex: StemIndex | null;
+}
+
+// A match, or a highlight already in the DOM, placed within the searched element
+interface DensityEntry {
+  term: string;
+  start: number;
+  end: number;
+  // Headings seen before the entry
+  section: number;
+  match?: TermMatch;
+}
+
+const HEADING_TAG = /^H[1-6]$/;
+
+type Morphology = { kind: 'english' } | { kind: 'stemmer'; stemmer: Stemmer } | null;
+
+function getLanguage(locale: string): string {
+  return locale.toLowerCase().split(/[-_]/)[0];
+}
+
+// Looks a locale up by its full tag, then by its language
+function findByLocale<T>(record: Record<string, T>, locale: string): T | undefined {
+  const tag = locale.toLowerCase();
+  const language = getLanguage(locale);
+  const entries = Object.entries(record);
+  return entries.find(([key]) => key.toLowerCase() === tag)?.[1]
+    ?? entries.find(([key]) => key.toLowerCase() === language)?.[1];
+}
 
 export class TermMatcher {
   private terms: Set<string> = new Set();
   private config: HighlightingConfig;
   private aliases: Map<string, string[]> = new Map();
+  // Terms and aliases that opted out of morphology
+  private exactTerms: Set<string> = new Set();
+  // Per locale, since case folding depends on it; rebuilt after the terms change
+  private compiled: Map<string, CompiledTerms> = new Map();
+  private aliasIndex: Map<string, string> | null = null;
 
   constructor(config: HighlightingConfig) {
     this.config = config;
   }
 
-  addTerm(term: string, aliases?: string[]): void {
-    const normalizedTerm = this.config.caseSensitive ? term : term.toLowerCase();
+  // Re-adding a known term with the same aliases keeps the compiled automaton
+  addTerm(term: string, aliases?: string[], options: { exact?: boolean } = {}): void {
+    const termCount = this.terms.size;
+    const normalizedTerm = this.normalize(term);
     this.terms.add(normalizedTerm);
+    let changed = this.setExact(normalizedTerm, options.exact);
     
     if (aliases) {
-      this.aliases.set(normalizedTerm, aliases.map(alias => 
-        this.config.caseSensitive ? alias : alias.toLowerCase()
-      ));
+      const normalizedAliases = aliases.map(alias => this.normalize(alias));
+      const previous = this.aliases.get(normalizedTerm);
+      if (!previous || previous.length !== normalizedAliases.length || previous.some((alias, i) => alias !== normalizedAliases[i])) {
+        this.aliases.set(normalizedTerm, normalizedAliases);
+        changed = true;
+      }
       
       // Add aliases as searchable terms too
-      aliases.forEach(alias => {
-        const normalizedAlias = this.config.caseSensitive ? alias : alias.toLowerCase();
-        this.terms.add(normalizedAlias);
+      normalizedAliases.forEach(alias => {
+        this.terms.add(alias);
+        changed = this.setExact(alias, options.exact) || changed;
       });
     }
+
+    if (changed || this.terms.size !== termCount) {
+      this.invalidate();
+    }
+  }
+
+  // Returns whether the flag changed
+  private setExact(term: string, exact: boolean | undefined): boolean {
+    if (exact) {
+      if (this.exactTerms.has(term)) return false;
+      this.exactTerms.add(term);
+    } else {
+      if (!this.exactTerms.has(term)) return false;
+      this.exactTerms.delete(term);
+    }
+    return true;
+  }
+
+  private invalidate(): void {
+    this.compiled.clear();
+    this.aliasIndex = null;
+  }
+
+  private normalize(term: string): string {
+    return this.config.caseSensitive ? term : toLocaleLowerCase(term, this.config.locale);
   }
 
   findMatches(element: HTMLElement): TermMatch[] {
-    const matches: TermMatch[] = [];
-    const walker = document.createTreeWalker(
-      element,
-      NodeFilter.SHOW_TEXT,
-      {
-        acceptNode: (node) => {
-          const parent = node.parentElement;
-          if (!parent) return NodeFilter.FILTER_REJECT;
-          
-          // Skip excluded elements
-          if (this.config.excludeSelectors.some(selector => parent.matches(selector))) {
-            return NodeFilter.FILTER_REJECT;
-          }
-          
-          // Skip if already highlighted or inside a manual hover term
-          if (parent.closest?.('[data-hoverkit-term], [data-hover-term]')) {
-            return NodeFilter.FILTER_REJECT;
-          }
-          
-          return NodeFilter.FILTER_ACCEPT;
-        }
+    const candidates: DensityEntry[] = [];
+    const existing: DensityEntry[] = [];
+    // Text offsets are counted across the whole element so spacing works between nodes
+    let offset = 0;
+    let section = 0;
+
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT);
+    let node: Node | null;
+    while ((node = walker.nextNode())) {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        if (HEADING_TAG.test(node.nodeName)) section++;
+        continue;
       }
-    );
 
-    let node: Text | null;
-    while ((node = walker.nextNode() as Text)) {
-      const text = node.textContent || '';
-      const nodeMatches = this.findTermsInText(text, node);
-      matches.push(...nodeMatches);
+      const textNode = node as Text;
+      const nodeStart = offset;
+      offset += textNode.data.length;
+
+      const parent = textNode.parentElement;
+      if (!parent) continue;
+
+      // Highlights from an earlier pass count towards the limits
+      const highlight = parent.closest('[data-hoverkit-match]');
+      if (highlight && element.contains(highlight)) {
+        const term = highlight.getAttribute('data-hoverkit-term') ?? '';
+        existing.push({ term, start: nodeStart, end: offset, section });
+        continue;
+      }
+
+      if (!this.shouldSearch(parent)) continue;
+
+      this.findTermsInText(textNode.data, textNode).forEach(match => {
+        candidates.push({ term: match.term, start: nodeStart + match.start, end: nodeStart + match.end, section, match });
+      });
     }
 
-    return matches.sort((a, b) => a.start - b.start);
+    // In document order; matches never overlap
+    return this.applyDensityLimits(candidates, existing);
   }
 
-  private findTermsInText(text: string, textNode: Text): TermMatch[] {
-    const matches: TermMatch[] = [];
-    const searchText = this.config.caseSensitive ? text : text.toLowerCase();
-
-    for (const term of this.terms) {
-      const regex = this.config.strategy === 'word-boundary' 
-        ? new RegExp(`\\b${this.escapeRegExp(term)}\\b`, 'gi')
-        : new RegExp(this.escapeRegExp(term), 'gi');
-
-      let match;
-      while ((match = regex.exec(searchText)) !== null) {
-        matches.push({
-          term: this.getCanonicalTerm(term),
-          start: match.index,
-          end: match.index + match[0].length,
-          element: textNode.parentElement!,
-          confidence: this.calculateConfidence(term, match[0])
+  private shouldSearch(parent: HTMLElement): boolean {
+    // Skip excluded elements
+    if (this.config.excludeSelectors.some(selector => parent.matches(selector))) {
+      return false;
+    }
+
+    // Skip if inside a manual hover term
+    return !parent.closest?.('[data-hoverkit-term], [data-hover-term]');
+  }
+
+  // Drops matches below minConfidence, beyond the per-term limit of their scope, or
+  // closer than minDistanceChars to the previous highlight
+  private applyDensityLimits(candidates: DensityEntry[], existing: DensityEntry[]): TermMatch[] {
+    const { densityScope, firstOccurrenceOnly, maxPerTerm, minDistanceChars, minConfidence } = this.config;
+    const limit = firstOccurrenceOnly ? 1 : maxPerTerm ?? Infinity;
+    const countKey = (entry: DensityEntry) => (densityScope === 'section' ? `${entry.section}:${entry.term}` : entry.term);
+
+    const counts = new Map<string, number>();
+    let lastEnd = -Infinity;
+    const kept: TermMatch[] = [];
+
+    [...existing, ...candidates].sort((a, b) => a.start - b.start).forEach(entry => {
+      const key = countKey(entry);
+      const count = counts.get(key) ?? 0;
+
+      if (entry.match) {
+        if (entry.match.confidence < minConfidence) return;
+        if (count >= limit) return;
+        if (entry.start - lastEnd < minDistanceChars) return;
+        kept.push(entry.match);
+      }
+
+      counts.set(key, count + 1);
+      lastEnd = Math.max(lastEnd, entry.end);
+    });
+
+    return kept;
+  }
+
+  private compile(locale: string | undefined): CompiledTerms {
+    const key = locale ?? '';
+    let compiled = this.compiled.get(key);
+    if (!compiled) {
+      const terms = Array.from(this.terms);
+      const patterns = [...terms];
+      const patternTerms = terms.map((_, index) => index);
+      const variants = new Map<string, number>();
+      const morphology = this.getMorphology(locale);
+      const inflectable = (term: string) => !this.exactTerms.has(term);
+
+      if (morphology?.kind === 'english') {
+        terms.forEach((term, index) => {
+          if (!inflectable(term)) return;
+          englishVariants(term).forEach(variant => {
+            const folded = foldCase(variant, locale);
+            // A form that is a term of its own stays that term
+            if (this.terms.has(variant) || variants.has(folded)) return;
+            variants.set(folded, index);
+            patterns.push(variant);
+            patternTerms.push(index);
+          });
         });
-        
-        // Prevent infinite loop on zero-length matches
-        if (match.index === regex.lastIndex) {
-          regex.lastIndex++;
-        }
       }
+
+      compiled = {
+        automaton: new AhoCorasick(patterns.map(pattern => foldCase(pattern, locale))),
+        terms,
+        canonicalTerms: terms.map(term => this.resolveAlias(term)),
+        patterns,
+        patternTerms,
+        variants,
+        stemIndex: morphology?.kind === 'stemmer'
+          ? new StemIndex(terms.map(term => (inflectable(term) ? foldCase(term, locale) : '')), morphology.stemmer)
+          : null,
+      };
+      this.compiled.set(key, compiled);
     }
+    return compiled;
+  }
+
+  // A stemmer for the locale's language, else the built-in rules for English (also used
+  // when the locale is unknown)
+  private getMorphology(locale: string | undefined): Morphology {
+    if (!this.config.morphology) return null;
+
+    const stemmer = findByLocale(this.config.stemmers, locale ?? 'en');
+    if (stemmer) return { kind: 'stemmer', stemmer };
+    return !locale || getLanguage(locale) === 'en' ? { kind: 'english' } : null;
+  }
+
+  // The nearest lang attribute below <html>, then the configured locale, then the page's
+  private getLocale(textNode: Text): string | undefined {
+    const langElement = textNode.parentElement?.closest('[lang]');
+    const lang = langElement && langElement !== document.documentElement ? langElement.getAttribute('lang') : null;
+    return lang || this.config.locale || document.documentElement.lang || undefined;
+  }
+
+  private getWordBoundaryMode(locale: string | undefined): WordBoundaryMode {
+    if (!locale) return this.config.wordBoundaries;
+    return findByLocale(this.config.wordBoundariesByLocale, locale) ?? this.config.wordBoundaries;
+  }
+
+  // One pass over the text for all terms. Matching is case-insensitive, and each pattern's
+  // matches don't overlap each other (like a global RegExp per pattern). Overlaps between
+  // different patterns are settled by the overlap policy. Results are ordered by start.
+  private findTermsInText(text: string, textNode: Text): TermMatch[] {
+    const locale = this.getLocale(textNode);
+    const { automaton, terms, canonicalTerms, patterns, patternTerms, stemIndex } = this.compile(locale);
+    const searchText = this.config.caseSensitive ? text : toLocaleLowerCase(text, locale);
+    const foldedText = foldCase(searchText, locale);
+    const wordBoundary = this.config.strategy === 'word-boundary';
+    // Created on the first candidate, since segmenting text without matches is wasted work
+    let isBoundary: ((index: number) => boolean) | null = null;
+    const lastEnds = new Map<number, number>();
+    const found: { patternIndex: number; start: number; end: number }[] = [];
+
+    automaton.search(foldedText, (patternIndex, start, end) => {
+      if (start < (lastEnds.get(patternIndex) ?? 0)) return;
+      if (wordBoundary) {
+        isBoundary ??= createWordBoundaryTest(searchText, this.getWordBoundaryMode(locale), locale);
+        if (!isBoundary(start) || !isBoundary(end)) return;
+      }
+      lastEnds.set(patternIndex, end);
+      found.push({ patternIndex, start, end });
+    });
+
+    // Stemmed matches get pattern indexes past the automaton's, one per term
+    stemIndex?.search(foldedText, (termIndex, start, end) => {
+      found.push({ patternIndex: patterns.length + termIndex, start, end });
+    });
+
+    const termOf = (patternIndex: number) =>
+      patternIndex < patterns.length ? patternTerms[patternIndex] : patternIndex - patterns.length;
+
+    return this.resolveOverlaps(found, termOf, searchText.length).map(({ patternIndex, start, end }) => {
+      const termIndex = termOf(patternIndex);
+      const isVariant = patternIndex >= terms.length;
+      const expected = patternIndex < patterns.length ? patterns[patternIndex] : terms[termIndex];
+      const confidence = this.calculateConfidence(expected, searchText.slice(start, end), locale);
+
+      return {
+        term: canonicalTerms[termIndex],
+        start,
+        end,
+        textNode,
+        element: textNode.parentElement!,
+        confidence: isVariant ? confidence * VARIANT_CONFIDENCE : confidence,
+      };
+    });
+  }
+
+  // Keeps the best of each group of overlapping matches, by length or by term order.
+  // The literal term wins ties with its inflected forms.
+  private resolveOverlaps<T extends { patternIndex: number; start: number; end: number }>(
+    found: T[],
+    termOf: (patternIndex: number) => number,
+    textLength: number
+  ): T[] {
+    const ranked = [...found].sort(this.config.overlapPolicy === 'priority'
+      ? (a, b) => termOf(a.patternIndex) - termOf(b.patternIndex) || a.patternIndex - b.patternIndex || a.start - b.start
+      : (a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start || a.patternIndex - b.patternIndex);
+
+    const taken = new Uint8Array(textLength);
+    const kept = ranked.filter(match => {
+      for (let i = match.start; i < match.end; i++) {
+        if (taken[i]) return false;
+      }
+      taken.fill(1, match.start, match.end);
+      return true;
+    });
 
-    return matches;
+    return kept.sort((a, b) => a.start - b.start);
   }
 
-  private getCanonicalTerm(term: string): string {
+  // The glossary term behind a term, alias or inflected form; unknown text comes back normalized
+  getCanonicalTerm(text: string): string {
+    const normalized = this.normalize(text);
+    if (this.terms.has(normalized)) return this.resolveAlias(normalized);
+
+    const locale = this.config.locale;
+    const { canonicalTerms, variants, stemIndex } = this.compile(locale);
+    const folded = foldCase(normalized, locale);
+    const termIndex = variants.get(folded) ?? stemIndex?.lookup(folded);
+    return termIndex !== undefined ? canonicalTerms[termIndex] : normalized;
+  }
+
+  private resolveAlias(term: string): string {
     // Find the canonical term if this is an alias
-    for (const [canonical, aliases] of this.aliases.entries()) {
-      if (aliases.includes(term)) {
-        return canonical;
+    return this.getAliasIndex().get(term) ?? term;
+  }
+
+  // Alias -> canonical term; an alias listed by several terms belongs to the first one added
+  private getAliasIndex(): Map<string, string> {
+    if (!this.aliasIndex) {
+      this.aliasIndex = new Map();
+      for (const [canonical, aliases] of this.aliases) {
+        aliases.forEach(alias => {
+          if (!this.aliasIndex!.has(alias)) this.aliasIndex!.set(alias, canonical);
+        });
       }
     }
-    return term;
+    return this.aliasIndex;
   }
 
-  private calculateConfidence(term: string, matchedText: string): number {
+
+  private calculateConfidence(term: string, matchedText: string, locale?: string): number {
     // Simple confidence based on exact match vs case/whitespace differences
     const exactMatch = term === matchedText;
-    const caseMatch = term.toLowerCase() === matchedText.toLowerCase();
+    const caseMatch = foldCase(term, locale) === foldCase(matchedText, locale);
     
     if (exactMatch) return 1.0;
     if (caseMatch) return 0.9;
     return 0.8;
   }
 
-  private escapeRegExp(string: string): string {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  }
-
   getTerms(): string[] {
     return Array.from(this.terms);
   }
 
   clear(): void {
+    this.invalidate();
     this.terms.clear();
+    this.exactTerms.clear();
     this.aliases.clear();
   }
 }
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { formatTerm, parseTerm } from './terms.js';
+
+describe('parseTerm', () => {
+  it('splits a namespace from the key', () => {
+    expect(parseTerm('api:User')).toEqual({ namespace: 'api', key: 'User' });
+    expect(parseTerm('my-docs_2:Rate limit')).toEqual({ namespace: 'my-docs_2', key: 'Rate limit' });
+  });
+
+  it('splits at the first separator only', () => {
+    expect(parseTerm('api:User:id')).toEqual({ namespace: 'api', key: 'User:id' });
+  });
+
+  it('leaves terms without a namespace whole', () => {
+    expect(parseTerm('interest rate')).toEqual({ key: 'interest rate' });
+    expect(parseTerm(':User')).toEqual({ key: ':User' });
+    expect(parseTerm('api:')).toEqual({ key: 'api:' });
+  });
+
+  it('does not split prose', () => {
+    expect(parseTerm('Note: fees apply')).toEqual({ key: 'Note: fees apply' });
+    expect(parseTerm('Note:\tfees apply')).toEqual({ key: 'Note:\tfees apply' });
+    expect(parseTerm('Step 1: apply')).toEqual({ key: 'Step 1: apply' });
+    expect(parseTerm('10:30')).toEqual({ key: '10:30' });
+  });
+
+  it('round-trips through formatTerm', () => {
+    for (const term of ['api:User', 'interest rate', 'Note: fees apply']) {
+      expect(formatTerm(parseTerm(term))).toBe(term);
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import type { ParsedTerm } from './types.js';
+
+export const NAMESPACE_SEPARATOR = ':';
+
+// Namespaces are identifier-like and keys start right after the separator, so prose
+// such as "Note: fees apply" is not split
+const NAMESPACE_PATTERN = /^[A-Za-z][\w-]*$/;
+
+export function parseTerm(term: string): ParsedTerm {
+  const index = term.indexOf(NAMESPACE_SEPARATOR);
+  if (index <= 0 || index === term.length - 1 || /\s/.test(term[index + 1])) {
+    return { key: term };
+  }
+
+  const namespace = term.slice(0, index);
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    return { key: term };
+  }
+
+  return { namespace, key: term.slice(index + 1) };
+}
+
+export function formatTerm({ namespace, key }: ParsedTerm): string {
+  return namespace ? `${namespace}${NAMESPACE_SEPARATOR}${key}` : key;
+}
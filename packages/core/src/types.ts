@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { HoverEngine } from './hover-engine.js';
+import type { PlacementSide, PlacementSize } from './placement.js';
 
 // Core data source interface
 export const DataSourceContentSchema = z.object({
@@ -15,9 +16,34 @@ export const DataSourceContentSchema = z.object({
 
 export type DataSourceContent = z.infer<typeof DataSourceContentSchema>;
 
+export interface TermDefinition {
+  term: string;
+  aliases?: string[];
+  // Only the term and its aliases match, even with highlighting.morphology on
+  exact?: boolean;
+}
+
+// Reduces one lower-cased word to its stem, e.g. a Snowball stemmer
+export type Stemmer = (word: string) => string;
+
+// `api:User` parses to { namespace: 'api', key: 'User' }; plain terms have no namespace
+export interface ParsedTerm {
+  namespace?: string;
+  key: string;
+}
+
+export interface ResolveOptions {
+  // Aborted when the card that requested the term closes before resolution finishes
+  signal?: AbortSignal;
+  // Set by the engine before calling resolve()
+  parsed?: ParsedTerm;
+}
+
 export interface DataSource {
   name: string;
-  resolve(term: string): Promise<DataSourceContent | null>;
+  resolve(term: string, options?: ResolveOptions): Promise<DataSourceContent | null>;
+  // Optional: list every term the source can resolve so the engine can highlight them
+  getTerms?(): Promise<TermDefinition[]>;
 }
 
 // Hover behavior configuration
@@ -27,22 +53,81 @@ export const HoverBehaviorConfigSchema = z.object({
   maxOpenCards: z.number().min(1).default(20),
   closeOnEscape: z.boolean().default(true),
   closeOnClickOutside: z.boolean().default(true),
+  // What a page scroll does to open cards; scrolling inside cards or registered containers never counts
+  closeOnScroll: z.enum(['all', 'top', 'none', 'reposition']).default('all'),
+  // static: cards stay where they opened; anchored: cards follow their trigger on scroll,
+  // resize and layout shifts (pair with closeOnScroll 'none' or 'reposition')
+  positioning: z.enum(['static', 'anchored']).default('static'),
+  // Sides of the trigger to try for root cards, in order of preference
+  placementSides: z.array(z.enum(['bottom', 'right', 'top', 'left'])).min(1).default(['bottom', 'right', 'top', 'left']),
+  placementGapPixels: z.number().min(0).default(1),
+  viewportPaddingPixels: z.number().min(0).default(8),
   cardInitialPopDelayMs: z.number().min(0).default(1000),
   cardCascadePopDelayMs: z.number().min(0).default(3000),
   cardFadeDurationMs: z.number().min(0).default(200),
-  stackBehavior: z.enum(['spiral', 'cascade']).default('spiral'),
+  // spiral/cascade: near the pointer; column: beside the parent (Miller columns);
+  // fan: rotated over the root card; tabs: one frame with a tab per level
+  stackBehavior: z.enum(['spiral', 'cascade', 'column', 'fan', 'tabs']).default('spiral'),
   stackOffsetPixels: z.number().min(0).default(20),
   showCloseButton: z.boolean().default(true),
+  // Path from the root card (APR › Compounding › Daily rate) above nested cards
+  showBreadcrumbs: z.boolean().default(false),
+  // Holding this key freezes the stack: no pop timers, no closing on scroll or outside clicks.
+  // null turns the feature off.
+  freezeStackModifier: z.enum(['Control', 'Alt', 'Shift', 'Meta']).nullable().default('Control'),
+  // Keeps the top card open while the pointer heads for it across empty space:
+  // inside the triangle from where it left the trigger to the card's edges, or moving toward it quickly
+  aimPrediction: z.boolean().default(true),
+  aimTimeoutMs: z.number().min(0).default(600),
+  aimMinSpeedPxPerSec: z.number().min(0).default(250),
+  aimTolerancePixels: z.number().min(0).default(8),
+  // Shows PointerEngine zones, the aim triangle and the velocity vector on screen
+  debugPointer: z.boolean().default(false),
 });
 
 export type HoverBehaviorConfig = z.infer<typeof HoverBehaviorConfigSchema>;
 
 // Highlighting configuration
+// How the word-boundary strategy finds the edges of words: 'ascii' is RegExp \b,
+// 'unicode' treats letters, marks and digits of every script as word characters, and
+// 'segmenter' uses Intl.Segmenter, which scripts written without spaces need
+export const WordBoundaryModeSchema = z.enum(['ascii', 'unicode', 'segmenter']);
+
+export type WordBoundaryMode = z.infer<typeof WordBoundaryModeSchema>;
+
 export const HighlightingConfigSchema = z.object({
   strategy: z.enum(['word-boundary', 'explicit-only']).default('word-boundary'),
+  // Locale for case folding and segmentation; lang attributes inside the page override it
+  locale: z.string().optional(),
+  wordBoundaries: WordBoundaryModeSchema.default('unicode'),
+  // Per-locale wordBoundaries, keyed by language tag ('pt-BR') or language ('ja')
+  wordBoundariesByLocale: z.record(WordBoundaryModeSchema).default({
+    ja: 'segmenter',
+    zh: 'segmenter',
+    th: 'segmenter',
+    lo: 'segmenter',
+    km: 'segmenter',
+    my: 'segmenter',
+  }),
   className: z.string().default('bg-amber-200/40 ring-amber-300'),
   caseSensitive: z.boolean().default(false),
   excludeSelectors: z.array(z.string()).default(['code', 'pre', 'input', 'textarea']),
+  // Which of two overlapping matches is highlighted ("interest" vs "interest rate"):
+  // the longer one, or the term that was added first
+  overlapPolicy: z.enum(['longest', 'priority']).default('longest'),
+  // Also match inflected forms of terms ("mortgages", "LTV's", "amortized") at a lower
+  // confidence. English rules are built in; other languages need a stemmer.
+  morphology: z.boolean().default(false),
+  // Stemmers by language ('de'); a stemmer for 'en' replaces the built-in rules
+  stemmers: z.record(z.custom<Stemmer>()).default({}),
+  // Density limits, so long pages don't get every occurrence highlighted. Counts are kept
+  // per highlighted container, or per heading section with densityScope 'section'.
+  densityScope: z.enum(['container', 'section']).default('container'),
+  firstOccurrenceOnly: z.boolean().default(false),
+  maxPerTerm: z.number().int().min(1).optional(),
+  // Characters between the end of one highlight and the start of the next
+  minDistanceChars: z.number().int().min(0).default(0),
+  minConfidence: z.number().min(0).max(1).default(0),
 });
 
 export type HighlightingConfig = z.infer<typeof HighlightingConfigSchema>;
@@ -60,63 +145,188 @@ export const AIConfigSchema = z.object({
 
 export type AIConfig = z.infer<typeof AIConfigSchema>;
 
+// Content cache configuration
+export const CacheConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  maxEntries: z.number().int().min(0).default(200),
+  ttlMs: z.number().min(0).default(5 * 60 * 1000),
+});
+
+export type CacheConfig = z.infer<typeof CacheConfigSchema>;
+
+// Source resolution configuration
+export const ResolutionConfigSchema = z.object({
+  // sequential: first non-null in order; race: fastest non-null; merge: combine all answers
+  strategy: z.enum(['sequential', 'race', 'merge']).default('sequential'),
+  // Source names, highest precedence first; orders sequential lookups and settles merge conflicts
+  precedence: z.array(z.string()).default([]),
+});
+
+export type ResolutionConfig = z.infer<typeof ResolutionConfigSchema>;
+
+// Term routing configuration
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const TermRouteSchema = z.object({
+  // Matches terms whose parsed namespace equals this value, e.g. 'api' for `api:User`
+  namespace: z.string().optional(),
+  // Matches the full term; strings are compiled with `new RegExp()`
+  pattern: z.union([
+    z.string().refine(isValidPattern, pattern => ({ message: `Invalid route pattern: ${pattern}` })),
+    z.instanceof(RegExp),
+  ]).optional(),
+  // Names of the sources that may resolve matching terms
+  sources: z.array(z.string()).min(1),
+}).refine(route => route.namespace !== undefined || route.pattern !== undefined, {
+  message: 'A route needs a namespace or a pattern',
+});
+
+export type TermRoute = z.infer<typeof TermRouteSchema>;
+
+export const RoutingConfigSchema = z.object({
+  // First matching route wins; unrouted terms go to every source
+  routes: z.array(TermRouteSchema).default([]),
+});
+
+export type RoutingConfig = z.infer<typeof RoutingConfigSchema>;
+
 // Overall provider configuration
 export const HoverKitConfigSchema = z.object({
   sources: z.array(z.custom<DataSource>()),
   behavior: HoverBehaviorConfigSchema.default({}),
   highlighting: HighlightingConfigSchema.default({}),
   ai: AIConfigSchema.default({}),
+  cache: CacheConfigSchema.default({}),
+  resolution: ResolutionConfigSchema.default({}),
+  routing: RoutingConfigSchema.default({}),
+  plugins: z.array(z.custom<HoverEnginePlugin>()).default([]),
 });
 
 export type HoverKitConfig = z.infer<typeof HoverKitConfigSchema>;
 
 // Card state management
+export interface CardError {
+  source?: string;
+  message: string;
+  retryable: boolean;
+}
+
 export interface CardState {
   id: string;
   term: string;
   content: DataSourceContent | null;
   position: { x: number; y: number };
+  // Transient cards close as soon as the pointer leaves; pinned ones follow the pop timers
   isPinned: boolean;
+  // When the pending auto-pin started, while one is running
+  pinScheduledAt?: number;
   isLoading: boolean;
+  // Set when every source that was asked failed; distinct from a plain miss
+  error?: CardError;
+  // Set when all sources answered but none knew the term
+  notFound?: boolean;
   parentId?: string;
   level: number;
   openedAt?: number;
+  // The element the card was opened from and the card's offset from its top-left corner;
+  // anchored positioning uses them to keep the card next to the trigger
+  triggerElement?: HTMLElement;
+  anchorOffset?: { x: number; y: number };
+  // Side of the trigger the card was placed on, if it was placed against one
+  placement?: PlacementSide;
+  // Rendered size reported by the UI once the card has been measured
+  size?: PlacementSize;
+  // Set once the user moved or resized the card; it then stays where it was put
+  // instead of following the stack layout or its trigger
+  isUserPlaced?: boolean;
+  // Size the user resized the card to, if any
+  userSize?: PlacementSize;
+  // Terms visited in this card when links are followed in place; historyIndex points at `term`
+  history: string[];
+  historyIndex: number;
+}
+
+// Serialized card stack (deep links, session restore). Cards are ordered so that
+// a parent always precedes its children; `parent` is the parent's index.
+export const SerializedCardSchema = z.object({
+  term: z.string().min(1),
+  parent: z.number().int().nonnegative().optional(),
+  position: z.object({ x: z.number(), y: z.number() }),
+  isPinned: z.boolean().default(true),
+  history: z.array(z.string().min(1)).optional(),
+  historyIndex: z.number().int().nonnegative().optional(),
+});
+
+export const SerializedCardStackSchema = z.object({
+  version: z.literal(1),
+  cards: z.array(SerializedCardSchema),
+});
+
+export type SerializedCard = z.infer<typeof SerializedCardSchema>;
+export type SerializedCardStack = z.infer<typeof SerializedCardStackSchema>;
+
+// Plugins
+type MaybePromise<T> = T | Promise<T>;
+
+export interface OpenCardRequest {
+  term: string;
+  triggerElement: HTMLElement;
+  position: { x: number; y: number };
+  parentId?: string;
+  // Set by plugins that place the card against triggerElement
+  placement?: PlacementSide;
+}
+
+export interface PluginContext {
+  engine: HoverEngine;
+  term: string;
+  cardId?: string;
+}
+
+// Hooks run in registration order. Returning undefined leaves the value untouched.
+export interface HoverEnginePlugin {
+  name: string;
+  // Return false to cancel the open, or fields that replace those of the request
+  beforeOpen?(request: OpenCardRequest, context: PluginContext): MaybePromise<Partial<OpenCardRequest> | false | void>;
+  // Return a new term to look up instead, or false to skip the sources entirely
+  beforeResolve?(term: string, context: PluginContext): MaybePromise<string | false | void>;
+  // Sees the raw source result once per lookup; the returned value is what gets cached
+  afterResolve?(content: DataSourceContent | null, context: PluginContext): MaybePromise<DataSourceContent | null | void>;
+  // Runs every time content is attached to a card, after the cache
+  transformContent?(content: DataSourceContent, context: PluginContext): MaybePromise<DataSourceContent | void>;
+  // Return false to keep the card open. Cards pruned to stay within maxOpenCards close regardless.
+  beforeClose?(card: CardState, context: PluginContext): boolean | void;
+  onError?(error: unknown, context: PluginContext): void;
 }
 
 // Events
 export interface HoverKitEvents {
   cardOpen: (card: CardState) => void;
+  // Fired when an open card's state changes, e.g. its content finished loading
+  cardUpdate: (card: CardState) => void;
   cardClose: (cardId: string) => void;
+  contentError: (cardId: string, error: CardError) => void;
   cardPin: (cardId: string) => void;
   cardUnpin: (cardId: string) => void;
   termHover: (term: string, element: HTMLElement) => void;
   termLeave: (term: string, element: HTMLElement) => void;
+  termsLoaded: (terms: string[]) => void;
 }
 
 // Term matching results
 export interface TermMatch {
   term: string;
+  // Offsets into textNode
   start: number;
   end: number;
+  textNode: Text;
   element: HTMLElement;
   confidence: number;
 }
-
-export interface HoverKitContextValue {
-  engine: HoverEngine;
-  cards: CardState[];
-  openCard: (term: string, element: HTMLElement, position: { x: number; y: number }, parentId?: string) => Promise<string>;
-  closeCard: (cardId: string) => void;
-  followLink: (linkTerm: string, fromCardId: string, position: { x: number; y: number }) => Promise<string | null>;
-  registerActiveTrigger: (element: HTMLElement, term: string) => void;
-  unregisterActiveTrigger: (element: HTMLElement) => void;
-  registerCardElement: (cardId: string, element: HTMLElement) => void;
-  unregisterCardElement: (cardId: string) => void;
-  getCardElement: (cardId: string) => HTMLElement | null;
-  isScrollFading: boolean;
-  cardInitialPopDelayMs: number;
-  cardCascadePopDelayMs: number;
-  cardFadeDurationMs: number;
-  stackBehavior: HoverBehaviorConfig['stackBehavior'];
-  stackOffsetPixels: HoverBehaviorConfig['stackOffsetPixels'];
-}
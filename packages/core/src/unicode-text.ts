@@ -0,0 +1,105 @@
+import type { WordBoundaryMode } from './types.js';
+
+// Locale-aware text helpers for term matching. Everything here keeps string lengths
+// intact, so offsets into a folded or lower-cased string are offsets into the original.
+
+const foldCaches = new Map<string, Map<string, string>>();
+
+function getFoldCache(locale: string | undefined): Map<string, string> {
+  const key = locale ?? '';
+  let cache = foldCaches.get(key);
+  if (!cache) {
+    cache = new Map();
+    foldCaches.set(key, cache);
+  }
+  return cache;
+}
+
+// Characters whose case mapping changes their length (ß → SS, İ → i̇ outside Turkish)
+// are left as they are
+function mapCodePoints(text: string, map: (char: string) => string): string {
+  let result = '';
+  for (const char of text) {
+    const mapped = map(char);
+    result += mapped.length === char.length ? mapped : char;
+  }
+  return result;
+}
+
+// Case-insensitive key: upper then lower case, so that e.g. σ/ς/Σ and, in Turkish, i/İ
+// and ı/I compare equal
+export function foldCase(text: string, locale?: string): string {
+  const cache = getFoldCache(locale);
+  return mapCodePoints(text, char => {
+    let folded = cache.get(char);
+    if (folded === undefined) {
+      const upper = char.toLocaleUpperCase(locale);
+      folded = (upper.length === char.length ? upper : char).toLocaleLowerCase(locale);
+      cache.set(char, folded);
+    }
+    return folded;
+  });
+}
+
+export function toLocaleLowerCase(text: string, locale?: string): string {
+  return mapCodePoints(text, char => char.toLocaleLowerCase(locale));
+}
+
+// JavaScript's \w
+const ASCII_WORD_CHAR = /\w/;
+// Letters, combining marks, digits and connectors (_) in any script
+const UNICODE_WORD_CHAR = /[\p{L}\p{M}\p{N}\p{Pc}]/u;
+
+function codePointBefore(text: string, index: number): string {
+  if (index <= 0) return '';
+  const low = text.charCodeAt(index - 1);
+  if (low >= 0xdc00 && low <= 0xdfff && index >= 2) {
+    const high = text.charCodeAt(index - 2);
+    if (high >= 0xd800 && high <= 0xdbff) return text.slice(index - 2, index);
+  }
+  return text[index - 1];
+}
+
+function codePointAt(text: string, index: number): string {
+  if (index >= text.length) return '';
+  return String.fromCodePoint(text.codePointAt(index)!);
+}
+
+function hasSegmenter(): boolean {
+  return typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function';
+}
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+function getSegmenter(locale: string | undefined): Intl.Segmenter {
+  const key = locale ?? '';
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(locale, { granularity: 'word' });
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+// Returns a test for whether a word starts or ends at an offset of `text`. 'segmenter'
+// falls back to 'unicode' where Intl.Segmenter isn't available.
+export function createWordBoundaryTest(
+  text: string,
+  mode: WordBoundaryMode,
+  locale?: string
+): (index: number) => boolean {
+  if (mode === 'segmenter' && hasSegmenter()) {
+    const boundaries = new Set<number>([text.length]);
+    for (const { index } of getSegmenter(locale).segment(text)) {
+      boundaries.add(index);
+    }
+    return index => boundaries.has(index);
+  }
+
+  const wordChar = mode === 'ascii' ? ASCII_WORD_CHAR : UNICODE_WORD_CHAR;
+  return index => {
+    const before = wordChar.test(codePointBefore(text, index));
+    const after = wordChar.test(codePointAt(text, index));
+    return before !== after;
+  };
+}
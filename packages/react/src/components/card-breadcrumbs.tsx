@@ -0,0 +1,66 @@
+import React from 'react';
+import type { CardState } from 'cascade-cards-core';
+import { ChevronRight } from 'lucide-react';
+import { cn } from '../lib/utils.js';
+
+interface CardBreadcrumbsProps {
+  // Root first, ending with the card the breadcrumbs belong to
+  chain: readonly CardState[];
+  onSelect: (cardId: string) => void;
+  className?: string;
+}
+
+// Longer chains keep the root and the last levels and elide the middle
+const MAX_VISIBLE_CRUMBS = 4;
+
+type Crumb = { kind: 'card'; card: CardState } | { kind: 'ellipsis'; hidden: readonly CardState[] };
+
+function toCrumbs(chain: readonly CardState[]): Crumb[] {
+  if (chain.length <= MAX_VISIBLE_CRUMBS) {
+    return chain.map(card => ({ kind: 'card', card }));
+  }
+
+  const tailLength = MAX_VISIBLE_CRUMBS - 2;
+  const tailStart = chain.length - tailLength;
+  return [
+    { kind: 'card', card: chain[0] },
+    { kind: 'ellipsis', hidden: chain.slice(1, tailStart) },
+    ...chain.slice(tailStart).map(card => ({ kind: 'card' as const, card })),
+  ];
+}
+
+export function CardBreadcrumbs({ chain, onSelect, className }: CardBreadcrumbsProps) {
+  if (chain.length < 2) return null;
+
+  const current = chain[chain.length - 1];
+
+  return (
+    <nav aria-label="Card path" className={cn('hoverkit-breadcrumbs min-w-0', className)}>
+      <ol className="flex min-w-0 items-center gap-0.5 text-[11px] text-slate-400">
+        {toCrumbs(chain).map((crumb, index) => (
+          <li key={crumb.kind === 'card' ? crumb.card.id : 'ellipsis'} className="flex min-w-0 items-center gap-0.5">
+            {index > 0 && <ChevronRight className="h-3 w-3 shrink-0 text-slate-600" aria-hidden />}
+            {crumb.kind === 'ellipsis' ? (
+              <span className="px-0.5" title={crumb.hidden.map(card => card.term).join(' › ')}>
+                …
+              </span>
+            ) : crumb.card.id === current.id ? (
+              <span className="truncate text-slate-200" aria-current="page">
+                {crumb.card.term}
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onSelect(crumb.card.id)}
+                className="max-w-[6rem] truncate rounded px-0.5 transition-colors duration-200 hover:text-white cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+                title={`Back to ${crumb.card.term}`}
+              >
+                {crumb.card.term}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
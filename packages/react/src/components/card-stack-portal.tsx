@@ -1,22 +1,77 @@
 'use client';
 
-import React, { useCallback, useEffect, useMemo, useRef } from 'react';
-import { useHoverKit } from '../hooks/use-hoverkit.js';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { getViewportSize } from 'cascade-cards-core';
+import { useHoverKitActions } from '../hooks/use-hoverkit.js';
+import {
+  useCard,
+  useCardAnimation,
+  useCardChain,
+  useCardIds,
+  useCardTabs,
+  useIsScrollFading,
+  useIsStackFrozen,
+  useIsTopCard,
+} from '../hooks/use-card-stack.js';
+import { computeCardLayout } from '../lib/stack-layouts.js';
 import { useRenderedMarkdown } from '../lib/render-markdown.js';
 import { cn } from '../lib/utils.js';
-import { X } from 'lucide-react';
+import { ChevronLeft, ChevronRight, GripHorizontal, Lock, MoveDiagonal2, Pin, PinOff, RotateCw, SearchX, X } from 'lucide-react';
+import { PinProgressRing } from './pin-progress-ring.js';
+import { CardBreadcrumbs } from './card-breadcrumbs.js';
+
+const historyButtonClassName = cn(
+  'inline-flex h-6 w-6 items-center justify-center rounded-lg border border-white/10 bg-white/10 text-slate-300 transition-colors duration-200',
+  'hover:bg-white/25 hover:text-white cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400',
+  'disabled:cursor-default disabled:opacity-40 disabled:hover:bg-white/10 disabled:hover:text-slate-300'
+);
+
+// Arrow key steps for moving and resizing pinned cards; Shift takes bigger steps
+const KEYBOARD_STEP_PIXELS = 10;
+const KEYBOARD_LARGE_STEP_PIXELS = 50;
+
+function getArrowKeyDelta(event: React.KeyboardEvent): { dx: number; dy: number } | null {
+  // Alt+arrows navigate the card's history
+  if (event.altKey || event.ctrlKey || event.metaKey) return null;
+  const step = event.shiftKey ? KEYBOARD_LARGE_STEP_PIXELS : KEYBOARD_STEP_PIXELS;
+  switch (event.key) {
+    case 'ArrowLeft': return { dx: -step, dy: 0 };
+    case 'ArrowRight': return { dx: step, dy: 0 };
+    case 'ArrowUp': return { dx: 0, dy: -step };
+    case 'ArrowDown': return { dx: 0, dy: step };
+    default: return null;
+  }
+}
 
-const CARD_WIDTH = 256;  // w-64 = 16rem = 256px
-const CARD_HEIGHT = 400; // Typical card height
-const EDGE_PADDING = 16;
+// Reports the pointer's offset from where the drag started until it is released
+function trackPointerDrag(event: React.PointerEvent<HTMLElement>, onMove: (dx: number, dy: number) => void) {
+  const target = event.currentTarget;
+  const { pointerId, clientX: startX, clientY: startY } = event;
+
+  const handleMove = (moveEvent: PointerEvent) => {
+    if (moveEvent.pointerId !== pointerId) return;
+    onMove(moveEvent.clientX - startX, moveEvent.clientY - startY);
+  };
+  const handleEnd = (endEvent: PointerEvent) => {
+    if (endEvent.pointerId !== pointerId) return;
+    target.removeEventListener('pointermove', handleMove);
+    target.removeEventListener('pointerup', handleEnd);
+    target.removeEventListener('pointercancel', handleEnd);
+  };
+
+  target.setPointerCapture(pointerId);
+  target.addEventListener('pointermove', handleMove);
+  target.addEventListener('pointerup', handleEnd);
+  target.addEventListener('pointercancel', handleEnd);
+}
 
 export function CardStackPortal() {
-  const { cards } = useHoverKit();
+  const cardIds = useCardIds();
 
   return (
     <div className="fixed inset-0 pointer-events-none z-[60]">
-      {cards.map((card) => (
-        <StackedCard key={card.id} cardId={card.id} />
+      {cardIds.map((cardId) => (
+        <StackedCard key={cardId} cardId={cardId} />
       ))}
     </div>
   );
@@ -25,78 +80,116 @@ export function CardStackPortal() {
 function StackedCard({ cardId }: { cardId: string }) {
   const {
     engine,
-    cards,
-    cardUIStates,
     registerCardElement,
     unregisterCardElement,
-    getCardElement,
-    isScrollFading,
     stackBehavior,
     stackOffsetPixels,
     showCloseButton,
-  } = useHoverKit();
-  const card = engine.getCard(cardId);
+    pinOnHoverDelayMs,
+    closeOnEscape,
+    viewportPaddingPixels,
+    selectTab,
+    showBreadcrumbs,
+  } = useHoverKitActions();
+  const card = useCard(cardId);
+  const chain = useCardChain(cardId);
+  const { tabs, activeTabId, isHidden } = useCardTabs(cardId);
+  const animationState = useCardAnimation(cardId);
+  const isTopCard = useIsTopCard(cardId);
+  const isScrollFading = useIsScrollFading();
+  const isFrozen = useIsStackFrozen();
   const contentRef = useRef<HTMLDivElement | null>(null);
   const cardRef = useRef<HTMLDivElement | null>(null);
   const closeButtonRef = useRef<HTMLButtonElement | null>(null);
   const renderedMarkdown = useRenderedMarkdown(card?.content?.markdown);
 
-  // Get UI state for this card
-  const uiState = cardUIStates.get(cardId);
-  const animationState = uiState?.animationState || 'idle';
-  
-  // Check if this is the top card
-  const isTopCard = useMemo(() => {
-    const sortedCards = [...cards].sort((a, b) => b.level - a.level);
-    return sortedCards[0]?.id === cardId;
-  }, [cards, cardId]);
-
-  const computeStackOrigin = useCallback(() => {
-    const topCard = [...cards].sort((a, b) => a.openedAt! - b.openedAt!)[0];
-    if (!topCard) return null;
-    const topCardElement = getCardElement(topCard.id);
-    if (topCardElement) {
-      const rect = topCardElement.getBoundingClientRect();
-      return { x: rect.left, y: rect.top };
-    }
-    return { x: topCard.position.x, y: topCard.position.y };
-  }, [cards, getCardElement]);
-
-  const style = useMemo<React.CSSProperties>(() => {
-    if (!card) return {};
-
-    // Level 0 (root): positioned below trigger by provider
-    // Level > 0 (stacked): use mouse position directly for origin, then apply small offset
-    let x = card.position.x;
-    let y = card.position.y;
+  const layout = useMemo(() => {
+    if (!card || chain.length === 0) return null;
 
-    if (card.level > 0 && stackBehavior === 'spiral') {
-      // Apply small offset from mouse position for stacking effect
-      const offset = stackOffsetPixels * (card.level - 1);
-      const angle = (card.level - 1) * 0.3;
-      
-      x = card.position.x + Math.cos(angle) * offset;
-      y = card.position.y + Math.sin(angle) * offset;
-    }
+    // Root cards sit where the root-position plugin placed them and deeper cards where
+    // followLink placed them against their link, unless stackBehavior lays them out by parent
+    return computeCardLayout(chain, {
+      behavior: stackBehavior,
+      offset: stackOffsetPixels,
+      padding: viewportPaddingPixels,
+      viewport: getViewportSize(),
+      getSize: stacked => stacked.size ?? engine.getEstimatedCardSize(),
+    });
+  }, [engine, card, chain, stackBehavior, stackOffsetPixels, viewportPaddingPixels]);
 
-    // Viewport clamping - cards are max 50vh tall, 20rem wide
-    const padding = 20;
-    const cardWidth = Math.min(320, window.innerWidth * 0.9); // 20rem or 90vw
-    const halfCardWidth = cardWidth / 2;
-    const maxCardHeight = window.innerHeight * 0.5; // 50vh
-    const halfCardHeight = maxCardHeight / 2;
-    
-    // Always keep cards fully on screen
-    x = Math.max(padding + halfCardWidth, Math.min(window.innerWidth - (padding + halfCardWidth), x));
-    y = Math.max(padding + halfCardHeight, Math.min(window.innerHeight - (padding + halfCardHeight), y));
+  const style = useMemo<React.CSSProperties>(() => {
+    if (!layout) return {};
 
     return {
       position: 'absolute',
-      left: x,
-      top: y,
-      transform: 'translate(-50%, -50%)',
+      left: layout.x,
+      top: layout.y,
+      transform: layout.rotate ? `translate(-50%, -50%) rotate(${layout.rotate}deg)` : 'translate(-50%, -50%)',
+      transformOrigin: layout.transformOrigin,
+      ...(isHidden ? { visibility: 'hidden', pointerEvents: 'none' } : {}),
     };
-  }, [card, stackBehavior, stackOffsetPixels]);
+  }, [layout, isHidden]);
+
+  // Pins the card where it is rendered, so moving or resizing starts from what the user sees
+  const placeAtLayout = () => {
+    const current = engine.getCard(cardId);
+    if (current && !current.isUserPlaced && layout) engine.moveCard(cardId, layout);
+    return engine.getCard(cardId) ?? null;
+  };
+
+  const handleHeaderPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!card?.isPinned || event.button !== 0) return;
+    if ((event.target as Element).closest('button')) return;
+
+    if (!layout) return;
+    event.preventDefault();
+    const origin = { x: layout.x, y: layout.y };
+    trackPointerDrag(event, (dx, dy) => engine.moveCard(cardId, { x: origin.x + dx, y: origin.y + dy }));
+  };
+
+  const handleMoveKeyDown = (event: React.KeyboardEvent) => {
+    const delta = getArrowKeyDelta(event);
+    if (!delta) return;
+    const placed = placeAtLayout();
+    if (!placed) return;
+    event.preventDefault();
+    engine.moveCard(cardId, { x: placed.position.x + delta.dx, y: placed.position.y + delta.dy });
+  };
+
+  const handleResizePointerDown = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!card || event.button !== 0) return;
+    event.preventDefault();
+    const origin = card.userSize ?? card.size ?? engine.getEstimatedCardSize();
+    trackPointerDrag(event, (dx, dy) => {
+      placeAtLayout();
+      engine.resizeCard(cardId, { width: origin.width + dx, height: origin.height + dy });
+    });
+  };
+
+  const handleResizeKeyDown = (event: React.KeyboardEvent) => {
+    const delta = getArrowKeyDelta(event);
+    if (!delta) return;
+    const placed = placeAtLayout();
+    if (!placed) return;
+    event.preventDefault();
+    const current = placed.userSize ?? placed.size ?? engine.getEstimatedCardSize();
+    engine.resizeCard(cardId, { width: current.width + delta.dx, height: current.height + delta.dy });
+  };
+
+  // Report the rendered size so placement works with real dimensions
+  const hasCard = !!card;
+  useEffect(() => {
+    const el = cardRef.current;
+    if (!el) return;
+
+    const report = () => engine.setCardSize(cardId, { width: el.offsetWidth, height: el.offsetHeight });
+    report();
+
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(report);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [engine, cardId, hasCard]);
 
   // Register card element with pointer engine
   useEffect(() => {
@@ -121,8 +214,15 @@ function StackedCard({ cardId }: { cardId: string }) {
 
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
+        if (!closeOnEscape) return;
         event.preventDefault();
         engine.closeCard(cardId);
+      } else if (event.altKey && event.key === 'ArrowLeft') {
+        event.preventDefault();
+        engine.back(cardId);
+      } else if (event.altKey && event.key === 'ArrowRight') {
+        event.preventDefault();
+        engine.forward(cardId);
       }
     };
 
@@ -132,10 +232,14 @@ function StackedCard({ cardId }: { cardId: string }) {
     return () => {
       element.removeEventListener('keydown', handleKeyDown);
     };
-  }, [engine, cardId, isTopCard]);
+  }, [engine, cardId, isTopCard, closeOnEscape]);
+
+  const hasContent = !!card?.content;
 
+  // Cards are replaced on every update (pin, size, position); only new content needs new
+  // listeners, so pending hover timers survive the rest
   useEffect(() => {
-    if (!engine || !contentRef.current || !card?.content) return;
+    if (!engine || !contentRef.current || !hasContent) return;
     
     const container = contentRef.current;
     const hoverTimers = new Map<HTMLElement, number>();
@@ -163,9 +267,12 @@ function StackedCard({ cardId }: { cardId: string }) {
       const x = e.clientX;
       const y = e.clientY;
 
-      try { console.debug('[HoverKit] Delegated hover over term in stacked card:', term, 'parent:', card.id); } catch {}
+      try { console.debug('[HoverKit] Delegated hover over term in stacked card:', term, 'parent:', cardId); } catch {}
+      // Following in place replaces the card under the pointer, so that waits for a click
+      if (!engine.getConfig().behavior.linkFollowInNewCard) return;
+
       const timer = window.setTimeout(() => {
-        engine.openCard(term, target, { x, y }, card.id);
+        engine.followLink(term, cardId, { x, y }, target);
       }, 250);
 
       hoverTimers.set(target, timer);
@@ -202,7 +309,7 @@ function StackedCard({ cardId }: { cardId: string }) {
       const x = e.clientX;
       const y = e.clientY;
 
-      engine.openCard(term, target, { x, y }, card.id);
+      engine.followLink(term, cardId, { x, y }, target);
     };
 
     const handleTouchEnd = (e: TouchEvent) => {
@@ -228,8 +335,8 @@ function StackedCard({ cardId }: { cardId: string }) {
       const x = touch.clientX;
       const y = touch.clientY;
 
-      try { console.debug('[HoverKit] Touch on term in stacked card:', term, 'parent:', card.id); } catch {}
-      engine.openCard(term, target, { x, y }, card.id);
+      try { console.debug('[HoverKit] Touch on term in stacked card:', term, 'parent:', cardId); } catch {}
+      engine.followLink(term, cardId, { x, y }, target);
     };
 
     // Use event delegation on the container
@@ -246,10 +353,14 @@ function StackedCard({ cardId }: { cardId: string }) {
       container.removeEventListener('touchend', handleTouchEnd);
       hoverTimers.forEach(timer => window.clearTimeout(timer));
     };
-  }, [engine, card, computeStackOrigin]);
+  }, [engine, cardId, hasContent]);
 
   if (!card) return null;
 
+  const hasHistory = card.history.length > 1;
+  const canGoBack = card.historyIndex > 0;
+  const canGoForward = card.historyIndex < card.history.length - 1;
+
   return (
     <div 
       ref={cardRef}
@@ -270,17 +381,49 @@ function StackedCard({ cardId }: { cardId: string }) {
           animationState === 'entering' && (card.level === 0 ? 'animate-in fade-in-0 slide-in-from-top-3 duration-500' : 'animate-in fade-in-0 slide-in-from-top-3 duration-500'),
           animationState === 'closing' && 'animate-out fade-out-0',
           animationState === 'scheduled-close' && isTopCard && 'opacity-90',
-          isScrollFading && 'opacity-0'
+          isScrollFading && 'opacity-0',
+          isFrozen && 'ring-1 ring-sky-400/50'
         )}
-        style={{ backfaceVisibility: 'hidden', transform: 'translateZ(0)' }}
+        style={{
+          backfaceVisibility: 'hidden',
+          transform: 'translateZ(0)',
+          ...(card.userSize ? { width: card.userSize.width, height: card.userSize.height, maxWidth: 'none' } : {}),
+        }}
         data-stack-state={animationState}
         data-is-top={isTopCard}
+        data-frozen={isFrozen || undefined}
       >
-        <div className="relative overflow-hidden rounded-[inherit] border-0 bg-gradient-to-b from-slate-950/95 via-slate-950/90 to-slate-950/95 backdrop-blur-xl">
+        <div className={cn(
+          'relative overflow-hidden rounded-[inherit] border-0 bg-gradient-to-b from-slate-950/95 via-slate-950/90 to-slate-950/95 backdrop-blur-xl',
+          card.userSize && 'h-full'
+        )}>
           <div className="absolute inset-0 opacity-0 transition-opacity duration-300 hover:opacity-100" aria-hidden>
             <div className="absolute -inset-24 bg-gradient-to-r from-purple-500/25 via-pink-500/20 to-sky-500/25 blur-3xl" />
           </div>
 
+          <button
+            type="button"
+            onClick={() => engine.togglePin(cardId)}
+            className={cn(
+              'absolute top-3 z-10 inline-flex h-8 w-8 items-center justify-center rounded-xl border border-white/10 bg-white/10 text-slate-300 transition-all duration-200 hover:bg-white/25 hover:text-white hover:border-white/20 cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400',
+              showCloseButton !== false ? 'right-12' : 'right-3',
+              card.isPinned && 'text-sky-300 border-sky-400/30'
+            )}
+            aria-label={card.isPinned ? 'Unpin card' : 'Pin card'}
+            aria-pressed={card.isPinned}
+            data-pinned={card.isPinned}
+          >
+            {card.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            {!card.isPinned && card.pinScheduledAt !== undefined && (
+              <PinProgressRing
+                startedAt={card.pinScheduledAt}
+                durationMs={pinOnHoverDelayMs}
+                size={32}
+                className="absolute inset-0"
+              />
+            )}
+          </button>
+
           {showCloseButton !== false && (
             <button
               type="button"
@@ -293,12 +436,96 @@ function StackedCard({ cardId }: { cardId: string }) {
             </button>
           )}
 
-          <div className="relative space-y-3 p-5">
-            <h3 className="pr-10 text-sm font-semibold tracking-tight">
-              <span className="bg-gradient-to-r from-purple-300 via-pink-300 to-sky-300 bg-clip-text text-transparent">
-                {card.term}
-              </span>
-            </h3>
+          <div className={cn('relative space-y-3 p-5', card.userSize && 'h-full overflow-y-auto')}>
+            {tabs.length > 1 && (
+              <div
+                className={cn('hoverkit-tabs flex gap-1 overflow-x-auto', showCloseButton !== false ? 'pr-20' : 'pr-10')}
+                role="tablist"
+                aria-label="Open cards"
+              >
+                {tabs.map((tab, index) => (
+                  <button
+                    key={tab.id}
+                    type="button"
+                    role="tab"
+                    aria-selected={tab.id === activeTabId}
+                    // The deepest card is the default tab, so picking it clears the selection
+                    onClick={() => selectTab(index === tabs.length - 1 ? null : tab.id)}
+                    className={cn(
+                      'max-w-[6rem] shrink-0 truncate rounded-lg border px-2 py-0.5 text-[11px] transition-colors duration-200 cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400',
+                      tab.id === activeTabId
+                        ? 'border-sky-400/30 bg-sky-400/15 text-sky-100'
+                        : 'border-white/10 bg-white/5 text-slate-400 hover:bg-white/15 hover:text-white'
+                    )}
+                  >
+                    {tab.term}
+                  </button>
+                ))}
+              </div>
+            )}
+            {showBreadcrumbs && tabs.length <= 1 && (
+              // The tab strip already shows the path in the 'tabs' layout
+              <CardBreadcrumbs
+                chain={chain}
+                onSelect={ancestorId => engine.collapseTo(ancestorId)}
+                className={showCloseButton !== false ? 'pr-20' : 'pr-10'}
+              />
+            )}
+            <div
+              className={cn(
+                'flex items-center gap-1.5',
+                showCloseButton !== false ? 'pr-20' : 'pr-10',
+                card.isPinned && 'cursor-move select-none touch-none'
+              )}
+              onPointerDown={handleHeaderPointerDown}
+            >
+              {card.isPinned && (
+                <button
+                  type="button"
+                  onKeyDown={handleMoveKeyDown}
+                  className={cn(historyButtonClassName, 'shrink-0 cursor-move')}
+                  aria-label="Move card"
+                  title="Drag the header or use the arrow keys to move"
+                >
+                  <GripHorizontal className="h-3.5 w-3.5" />
+                </button>
+              )}
+              {hasHistory && (
+                <div className="hoverkit-history-nav flex shrink-0 items-center gap-0.5">
+                  <button
+                    type="button"
+                    onClick={() => engine.back(cardId)}
+                    disabled={!canGoBack}
+                    className={historyButtonClassName}
+                    aria-label="Back"
+                    title="Back (Alt+←)"
+                  >
+                    <ChevronLeft className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => engine.forward(cardId)}
+                    disabled={!canGoForward}
+                    className={historyButtonClassName}
+                    aria-label="Forward"
+                    title="Forward (Alt+→)"
+                  >
+                    <ChevronRight className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+              <h3 className="min-w-0 truncate text-sm font-semibold tracking-tight">
+                <span className="bg-gradient-to-r from-purple-300 via-pink-300 to-sky-300 bg-clip-text text-transparent">
+                  {card.term}
+                </span>
+              </h3>
+              {isFrozen && isTopCard && (
+                <span className="hoverkit-locked-indicator inline-flex shrink-0 items-center gap-1 rounded-md border border-sky-400/30 bg-sky-400/10 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide text-sky-200">
+                  <Lock className="h-2.5 w-2.5" />
+                  Locked
+                </span>
+              )}
+            </div>
 
             {card.isLoading ? (
               <div className="hoverkit-card-loading flex items-center justify-center rounded-xl border border-white/5 bg-white/5 py-8">
@@ -307,6 +534,27 @@ function StackedCard({ cardId }: { cardId: string }) {
                   <span className="relative inline-flex h-8 w-8 rounded-full bg-gradient-to-r from-purple-500 to-sky-400" />
                 </span>
               </div>
+            ) : card.error ? (
+              <div className="hoverkit-error-state space-y-3 rounded-lg border border-rose-400/20 bg-rose-500/10 px-4 py-4 text-xs text-rose-200" role="alert">
+                <p>
+                  {card.error.source ? `Couldn't load from ${card.error.source}.` : "Couldn't load this card."}
+                </p>
+                {card.error.retryable && (
+                  <button
+                    type="button"
+                    onClick={() => engine.retryCard(cardId)}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/10 px-2.5 py-1 text-slate-200 transition-colors duration-200 hover:bg-white/20 hover:text-white cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+                  >
+                    <RotateCw className="h-3 w-3" />
+                    Retry
+                  </button>
+                )}
+              </div>
+            ) : card.notFound ? (
+              <div className="hoverkit-not-found-state flex items-start gap-2 rounded-lg border border-dashed border-white/10 px-4 py-5 text-xs text-slate-400" role="status">
+                <SearchX className="mt-px h-3.5 w-3.5 shrink-0 text-slate-500" aria-hidden />
+                <p>No entry for &ldquo;{card.term}&rdquo; in any source.</p>
+              </div>
             ) : card.content ? (
               <div
                 ref={contentRef}
@@ -322,6 +570,19 @@ function StackedCard({ cardId }: { cardId: string }) {
               </div>
             )}
           </div>
+
+          {card.isPinned && (
+            <button
+              type="button"
+              onPointerDown={handleResizePointerDown}
+              onKeyDown={handleResizeKeyDown}
+              className="hoverkit-resize-handle absolute bottom-1 right-1 z-10 inline-flex h-5 w-5 touch-none items-center justify-center rounded-md text-slate-500 transition-colors duration-200 hover:text-white cursor-se-resize focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+              aria-label="Resize card"
+              title="Drag or use the arrow keys to resize"
+            >
+              <MoveDiagonal2 className="h-3 w-3" />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -2,7 +2,7 @@
 
 import React, { forwardRef, useEffect, useRef, useState, type HTMLAttributes } from 'react';
 import * as HoverCardPrimitive from '@radix-ui/react-hover-card';
-import { useHoverKit } from '../hooks/use-hoverkit.js';
+import { useHoverKitActions } from '../hooks/use-hoverkit.js';
 import { cn } from '../lib/utils.js';
 import { useRenderedMarkdown } from '../lib/render-markdown.js';
 import { HoverTerm } from './hover-term.js';
@@ -21,7 +21,7 @@ const HoverCardContent = forwardRef<
   React.ElementRef<typeof HoverCardPrimitive.Content>,
   HoverCardContentProps
 >(({ className, term, cardContent, onLinkClick, children, ...props }, ref) => {
-  const { engine, openCard } = useHoverKit();
+  const { engine, openCard } = useHoverKitActions();
   const [resolvedContent, setResolvedContent] = useState<DataSourceContent | null>(cardContent || null);
   const [isLoading, setIsLoading] = useState(false);
   const contentRef = useRef<HTMLDivElement | null>(null);
@@ -32,30 +32,29 @@ const HoverCardContent = forwardRef<
     if (term && !cardContent && !resolvedContent) {
       setIsLoading(true);
       
-      // Resolve content through the engine's sources
+      // Resolve content through the engine so the cache and in-flight lookups are shared
+      const controller = new AbortController();
       const loadContent = async () => {
         try {
-          // Get sources from the engine
-          const sources = engine.getSources();
-          for (const source of sources) {
-            try {
-              const result = await source.resolve(term);
-              if (result) {
-                setResolvedContent(result);
-                break;
-              }
-            } catch (error) {
-              console.warn(`Source "${source.name}" failed:`, error);
-            }
+          const result = await engine.resolveContent(term, { signal: controller.signal });
+          if (result) {
+            setResolvedContent(result);
           }
         } catch (error) {
+          if (controller.signal.aborted) return;
           console.error('Failed to load content:', error);
         } finally {
-          setIsLoading(false);
+          if (!controller.signal.aborted) {
+            setIsLoading(false);
+          }
         }
       };
 
       loadContent();
+
+      return () => {
+        controller.abort();
+      };
     }
   }, [term, cardContent, resolvedContent, engine]);
 
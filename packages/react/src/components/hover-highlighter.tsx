@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, type ReactNode } from 'react';
-import { useHoverKit } from '../hooks/use-hoverkit.js';
+import { useHoverKitActions } from '../hooks/use-hoverkit.js';
 
 interface HoverHighlighterProps {
   children: ReactNode;
@@ -15,7 +15,7 @@ export function HoverHighlighter({
   disabled = false 
 }: HoverHighlighterProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const { engine } = useHoverKit();
+  const { engine } = useHoverKitActions();
   const hasHighlightedRef = useRef(false);
 
   useEffect(() => {
@@ -41,6 +41,29 @@ export function HoverHighlighter({
     }
   }, [terms, disabled, engine]);
 
+  // Terms listed by data sources arrive asynchronously; highlight them as they land.
+  // Already-highlighted spans are skipped by the matcher, so re-running is safe.
+  // Unhighlighting on cleanup puts the container's text nodes back the way React rendered them,
+  // when highlighting is turned off and when the highlighter unmounts.
+  useEffect(() => {
+    if (disabled || !engine) return;
+
+    const container = containerRef.current;
+    const handleTermsLoaded = () => {
+      if (containerRef.current) {
+        engine.highlightElement(containerRef.current);
+        hasHighlightedRef.current = true;
+      }
+    };
+
+    engine.on('termsLoaded', handleTermsLoaded);
+    return () => {
+      engine.off('termsLoaded', handleTermsLoaded);
+      if (container) engine.unhighlight(container);
+      hasHighlightedRef.current = false;
+    };
+  }, [disabled, engine]);
+
   return (
     <div 
       ref={containerRef} 
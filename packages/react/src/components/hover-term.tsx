@@ -1,5 +1,7 @@
 import React, { forwardRef, useEffect, useRef, type ReactNode } from 'react';
-import { useHoverKit } from '../hooks/use-hoverkit.js';
+import { useHoverKitActions } from '../hooks/use-hoverkit.js';
+import { useEngineSelector } from '../hooks/use-engine-store.js';
+import { PinProgressRing } from './pin-progress-ring.js';
 import { cn } from '../lib/utils.js';
 
 interface HoverTermProps {
@@ -12,7 +14,12 @@ interface HoverTermProps {
 
 const HoverTerm = forwardRef<HTMLSpanElement, HoverTermProps>(
   ({ term, children, className, variant = 'default', disableDelay = false, ...props }, ref) => {
-    const { openCard, registerActiveTrigger, unregisterActiveTrigger } = useHoverKit();
+    const { engine, openCard, registerActiveTrigger, unregisterActiveTrigger, pinOnHoverDelayMs } = useHoverKitActions();
+    // Pin progress of the root card this trigger opened, if it is about to lock
+    const pinScheduledAt = useEngineSelector(
+      engine,
+      snapshot => snapshot.cards.find(card => !card.parentId && card.term === term && !card.isPinned)?.pinScheduledAt
+    );
     const localRef = useRef<HTMLSpanElement | null>(null);
     const timerRef = useRef<number | null>(null);
 
@@ -131,7 +138,7 @@ const HoverTerm = forwardRef<HTMLSpanElement, HoverTermProps>(
           else if (ref) (ref as React.MutableRefObject<HTMLSpanElement | null>).current = node;
         }}
         className={cn(
-          'cursor-help inline-block',
+          'relative cursor-help inline-block',
           variantStyles[variant],
           className
         )}
@@ -149,6 +156,14 @@ const HoverTerm = forwardRef<HTMLSpanElement, HoverTermProps>(
         {...props}
       >
         {children}
+        {pinScheduledAt !== undefined && (
+          <PinProgressRing
+            startedAt={pinScheduledAt}
+            durationMs={pinOnHoverDelayMs}
+            size={14}
+            className="absolute -right-2 -top-2"
+          />
+        )}
       </span>
     );
   }
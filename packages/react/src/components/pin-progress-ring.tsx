@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { cn } from '../lib/utils.js';
+
+interface PinProgressRingProps {
+  startedAt: number;
+  durationMs: number;
+  size?: number;
+  className?: string;
+}
+
+const STROKE_WIDTH = 2;
+
+// Fills over durationMs starting at startedAt; driven by rAF so it stays in sync
+// with the engine's pin timer even if it mounts late
+export function PinProgressRing({ startedAt, durationMs, size = 20, className }: PinProgressRingProps) {
+  const [progress, setProgress] = useState(() => computeProgress(startedAt, durationMs));
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const next = computeProgress(startedAt, durationMs);
+      setProgress(next);
+      if (next < 1) {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [startedAt, durationMs]);
+
+  const radius = (size - STROKE_WIDTH) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      className={cn('hoverkit-pin-progress pointer-events-none -rotate-90', className)}
+      aria-hidden
+    >
+      <circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        strokeWidth={STROKE_WIDTH}
+        className="stroke-white/15"
+      />
+      <circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        strokeWidth={STROKE_WIDTH}
+        strokeLinecap="round"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - progress)}
+        className="stroke-sky-400"
+      />
+    </svg>
+  );
+}
+
+function computeProgress(startedAt: number, durationMs: number): number {
+  if (durationMs <= 0) return 1;
+  return Math.min(1, Math.max(0, (Date.now() - startedAt) / durationMs));
+}
@@ -4,7 +4,6 @@ import React, {
   useEffect,
   useMemo,
   useRef,
-  useState,
   type ReactNode,
 } from 'react';
 import {
@@ -14,47 +13,120 @@ import {
   HoverBehaviorConfigSchema,
   HighlightingConfigSchema,
   AIConfigSchema,
+  CacheConfigSchema,
+  ResolutionConfigSchema,
+  RoutingConfigSchema,
   type HoverBehaviorConfig,
   type HighlightingConfig,
   type AIConfig,
+  type CacheConfig,
+  type ResolutionConfig,
+  type RoutingConfig,
+  type HoverEnginePlugin,
+  selectTopCard,
+  selectTopCardId,
+  SerializedCardStackSchema,
 } from 'cascade-cards-core';
 import { CardStackPortal } from './card-stack-portal.js';
 import { PointerEngine, type PointerState, type PointerZone } from '../lib/pointer-engine.js';
-
-type CardAnimationState = 
+import { createRootPositionPlugin } from '../lib/root-position-plugin.js';
+import { UIStore } from '../lib/ui-store.js';
+import type { AimOptions } from '../lib/aim-predictor.js';
+import { AnchorTracker } from '../lib/anchor-tracker.js';
+import {
+  anchorStackToTriggers,
+  readStackFromUrl,
+  resolveUrlSyncOptions,
+  writeStackToUrl,
+  type UrlSyncOptions,
+} from '../lib/url-state.js';
+
+export type CardAnimationState = 
   | 'entering'
   | 'idle' 
   | 'scheduled-close'
   | 'closing'
   | 'closed';
 
-interface CardUIState {
+export interface CardUIState {
   animationState: CardAnimationState;
   isPointerInside: boolean;
 }
 
-export interface HoverKitContextValue {
+// Provider-owned UI state, kept outside React state so pointer and animation
+// changes only re-render the cards that read them
+export interface StackUIState {
+  animations: ReadonlyMap<string, CardAnimationState>;
+  isScrollFading: boolean;
+  pointerZone: PointerZone;
+  // True while the freeze modifier is held
+  isFrozen: boolean;
+  // Pointer is outside the stack but heading for the top card
+  isAiming: boolean;
+  // Tab picked in the 'tabs' stack layout; null shows the top card
+  activeTabCardId: string | null;
+}
+
+// Stable for the lifetime of the provider (until config changes)
+export interface HoverKitActionsContextValue {
   engine: HoverEngine;
-  cards: CardState[];
-  cardUIStates: Map<string, CardUIState>;
-  openCard: (term: string, element: HTMLElement, position: { x: number; y: number }, parentId?: string) => Promise<string>;
+  uiStore: UIStore<StackUIState>;
+  openCard: (term: string, element: HTMLElement, position: { x: number; y: number }, parentId?: string) => Promise<string | null>;
   closeCard: (cardId: string) => void;
-  followLink: (linkTerm: string, fromCardId: string, position: { x: number; y: number }) => Promise<string | null>;
+  followLink: (
+    linkTerm: string,
+    fromCardId: string,
+    position: { x: number; y: number },
+    linkElement?: HTMLElement
+  ) => Promise<string | null>;
   registerActiveTrigger: (element: HTMLElement, term: string) => void;
   unregisterActiveTrigger: (element: HTMLElement) => void;
   registerCardElement: (cardId: string, element: HTMLElement) => void;
   unregisterCardElement: (cardId: string) => void;
   getCardElement: (cardId: string) => HTMLElement | null;
-  isScrollFading: boolean;
+  // Scrolling inside a registered container never closes or moves cards
+  registerScrollContainer: (element: HTMLElement) => void;
+  unregisterScrollContainer: (element: HTMLElement) => void;
+  closeOnEscape: boolean;
+  viewportPaddingPixels: number;
+  selectTab: (cardId: string | null) => void;
   cardInitialPopDelayMs: number;
   cardCascadePopDelayMs: number;
   cardFadeDurationMs: number;
+  pinOnHoverDelayMs: number;
   stackBehavior: HoverBehaviorConfig['stackBehavior'];
   stackOffsetPixels: HoverBehaviorConfig['stackOffsetPixels'];
   showCloseButton?: boolean;
+  showBreadcrumbs: boolean;
+}
+
+// Everything useHoverKit() returns: the stable actions plus the current stack state
+export interface HoverKitContextValue extends HoverKitActionsContextValue {
+  cards: readonly CardState[];
+  cardUIStates: Map<string, CardUIState>;
+  isScrollFading: boolean;
+}
+
+// Covers the hop from a trigger to its card
+const TRANSIENT_CLOSE_DELAY_MS = 80;
+// Scroll events this far apart belong to separate gestures
+const SCROLL_GESTURE_GAP_MS = 150;
+// Stack changes are written to the URL once they settle, not on every drag or scroll frame
+const URL_WRITE_DELAY_MS = 250;
+
+function isSameAnimations(
+  a: ReadonlyMap<string, CardAnimationState>,
+  b: ReadonlyMap<string, CardAnimationState>
+): boolean {
+  if (a === b) return true;
+  if (a.size !== b.size) return false;
+  for (const [id, state] of a) {
+    if (b.get(id) !== state) return false;
+  }
+  return true;
 }
 
-export const HoverKitContext = createContext<HoverKitContextValue | null>(null);
+export const HoverKitActionsContext = createContext<HoverKitActionsContextValue | null>(null);
 
 interface HoverKitProviderProps {
   children: ReactNode;
@@ -62,6 +134,12 @@ interface HoverKitProviderProps {
   behavior?: Partial<HoverBehaviorConfig>;
   highlighting?: Partial<HighlightingConfig>;
   ai?: Partial<AIConfig>;
+  cache?: Partial<CacheConfig>;
+  resolution?: Partial<ResolutionConfig>;
+  routing?: Partial<RoutingConfig>;
+  plugins?: HoverEnginePlugin[];
+  // Keeps the open stack in the URL and restores it on load
+  syncUrl?: boolean | UrlSyncOptions;
 }
 
 export function HoverKitProvider({
@@ -70,45 +148,74 @@ export function HoverKitProvider({
   behavior,
   highlighting,
   ai,
+  cache,
+  resolution,
+  routing,
+  plugins,
+  syncUrl,
 }: HoverKitProviderProps) {
   const engineRef = useRef<HoverEngine | null>(null);
   const pointerEngineRef = useRef<PointerEngine | null>(null);
-  const [cards, setCards] = useState<CardState[]>([]);
-  const [cardAnimations, setCardAnimations] = useState<Map<string, CardAnimationState>>(new Map());
-  const [pointerState, setPointerState] = useState<PointerState>({
+  const uiStoreRef = useRef<UIStore<StackUIState> | null>(null);
+  const pointerStateRef = useRef<PointerState>({
     x: -1,
     y: -1,
     overZone: 'none',
     timestamp: Date.now(),
     inputType: 'mouse'
   });
-  const pointerZoneRef = useRef<PointerZone>('none');
   const closeTimerRef = useRef<number | null>(null);
   const closingAnimationTimerRef = useRef<number | null>(null);
   const openGraceUntilRef = useRef<number>(0);
   const pointerOverStackRef = useRef(false);
   const hasCascadedRef = useRef(false);
+  // Restored cards stay open until the pointer first reaches the stack
+  const holdRestoredRef = useRef(false);
+  // A card the user just unpinned shouldn't pin itself again while still hovered
+  const suppressAutoPinRef = useRef<string | null>(null);
+  const graceTimerRef = useRef<number | null>(null);
   const cardElementsRef = useRef<Map<string, HTMLElement>>(new Map());
-  const cardsRef = useRef<CardState[]>([]);
   
   const scrollFadeTimerRef = useRef<number | null>(null);
-  const [isScrollFading, setIsScrollFading] = useState(false);
+
+  if (!uiStoreRef.current) {
+    uiStoreRef.current = new UIStore<StackUIState>({
+      animations: new Map(),
+      isScrollFading: false,
+      pointerZone: 'none',
+      isFrozen: false,
+      isAiming: false,
+      activeTabCardId: null,
+    });
+  }
+  const uiStore = uiStoreRef.current;
+
+  const setIsScrollFading = useCallback((isScrollFading: boolean) => {
+    uiStore.setState({ isScrollFading });
+  }, [uiStore]);
+
+  const setCardAnimations = useCallback((update: (prev: ReadonlyMap<string, CardAnimationState>) => ReadonlyMap<string, CardAnimationState>) => {
+    uiStore.setState(state => {
+      const next = update(state.animations);
+      return { animations: isSameAnimations(state.animations, next) ? state.animations : next };
+    });
+  }, [uiStore]);
 
   // Timing configuration
   const cardInitialPopDelayMs = behavior?.cardInitialPopDelayMs ?? 500;
   const cardCascadePopDelayMs = behavior?.cardCascadePopDelayMs ?? 3000;
   const cardFadeDurationMs = behavior?.cardFadeDurationMs ?? 200;
 
-  const CARD_WIDTH = 256;
-  const CARD_HEIGHT = 400;
-  const ROOT_EDGE_PADDING = 1; // 1px gap under the trigger for the first card
-
   const config = useMemo<HoverKitConfig>(() => ({
     sources,
     behavior: HoverBehaviorConfigSchema.parse(behavior ?? {}),
     highlighting: HighlightingConfigSchema.parse(highlighting ?? {}),
     ai: AIConfigSchema.parse(ai ?? {}),
-  }), [sources, behavior, highlighting, ai]);
+    cache: CacheConfigSchema.parse(cache ?? {}),
+    resolution: ResolutionConfigSchema.parse(resolution ?? {}),
+    routing: RoutingConfigSchema.parse(routing ?? {}),
+    plugins: plugins ?? [],
+  }), [sources, behavior, highlighting, ai, cache, resolution, routing, plugins]);
 
   if (!engineRef.current) {
     engineRef.current = new HoverEngine(config);
@@ -118,64 +225,82 @@ export function HoverKitProvider({
 
   const engine = engineRef.current;
 
-  // Ensure ALL root card opens (including those initiated inside core highlight listeners)
-  // compute their position below the trigger element. We monkey-patch once.
+  // Position ALL root card opens (including those initiated inside core highlight listeners)
+  // below their trigger element.
+  useEffect(() => engine.use(createRootPositionPlugin()), [engine]);
+
+  const urlSyncOptions = resolveUrlSyncOptions(syncUrl);
+  const urlSyncMode = urlSyncOptions?.mode;
+  const urlSyncParam = urlSyncOptions?.param;
+
+  // Restore the stack from the URL once, then mirror every change back into it
   useEffect(() => {
-    if (!engine) return;
-    const anyEngine = engine as unknown as { __openPatched?: boolean } & HoverEngine;
-    if (anyEngine.__openPatched) return;
-
-    const originalOpenCard = engine.openCard.bind(engine);
-    (engine as any).__openPatched = true;
-    (engine as any).openCard = async (
-      term: string,
-      element: HTMLElement,
-      position: { x: number; y: number },
-      parentId?: string
-    ) => {
-      let nextPosition = position;
-      if (!parentId && element) {
-        nextPosition = computeRootCardPosition(element, position);
-      }
-      return originalOpenCard(term, element, nextPosition, parentId);
+    if (!urlSyncMode || !urlSyncParam) return;
+    const options = { mode: urlSyncMode, param: urlSyncParam };
+
+    const stored = SerializedCardStackSchema.safeParse(readStackFromUrl(options));
+    if (stored.success && stored.data.cards.length > 0) {
+      holdRestoredRef.current = true;
+      engine.restore(anchorStackToTriggers(stored.data, engine)).catch(error => {
+        console.warn('Failed to restore the card stack from the URL:', error);
+      });
+    }
+
+    let writeTimer: number | undefined;
+    let lastWritten: string | undefined;
+    const write = () => {
+      writeTimer = undefined;
+      const stack = engine.serialize();
+      const serialized = JSON.stringify(stack);
+      if (serialized === lastWritten) return;
+      lastWritten = serialized;
+      writeStackToUrl(stack, options);
     };
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [engine]);
 
-  // Helper to find top card in stack
-  const getTopCard = useCallback(() => {
-    const sortedCards = [...cards].sort((a, b) => {
-      // Sort by level first, then by ID (newer cards have higher IDs)
-      if (b.level !== a.level) return b.level - a.level;
-      return b.id.localeCompare(a.id);
+    const unsubscribe = engine.subscribe(() => {
+      window.clearTimeout(writeTimer);
+      writeTimer = window.setTimeout(write, URL_WRITE_DELAY_MS);
     });
-    return sortedCards[0];
-  }, [cards]);
+    return () => {
+      unsubscribe();
+      window.clearTimeout(writeTimer);
+    };
+  }, [engine, urlSyncMode, urlSyncParam]);
+
+  const { aimPrediction, aimTimeoutMs, aimMinSpeedPxPerSec, aimTolerancePixels } = config.behavior;
+  const aimOptions = useMemo<AimOptions | null>(() => aimPrediction
+    ? { timeoutMs: aimTimeoutMs, minSpeed: aimMinSpeedPxPerSec, tolerance: aimTolerancePixels }
+    : null,
+  [aimPrediction, aimTimeoutMs, aimMinSpeedPxPerSec, aimTolerancePixels]);
 
-  // Keep cardsRef in sync with cards state
   useEffect(() => {
-    cardsRef.current = cards;
-  }, [cards]);
+    pointerEngineRef.current?.setAimOptions(aimOptions);
+  }, [aimOptions]);
 
-  // Initialize pointer engine with a live top-card resolver using cardsRef
+  // Helper to find top card in stack; reads the live snapshot so it never goes stale
+  const getTopCard = useCallback(() => {
+    return selectTopCard(engine.getSnapshot());
+  }, [engine]);
+
+  // Initialize pointer engine with a live top-card resolver reading the engine store
   useEffect(() => {
     if (!pointerEngineRef.current) {
-      const pointerEngine = new PointerEngine({ debug: false });
+      // Debug mode is read once, when the pointer engine is created
+      const pointerEngine = new PointerEngine({ debug: config.behavior.debugPointer, aim: aimOptions });
       pointerEngineRef.current = pointerEngine;
 
-      // Live resolver reading from cardsRef to avoid stale closures
-      pointerEngine.getTopCardId = () => {
-        const list = cardsRef.current;
-        if (!list || list.length === 0) return null;
-        const sorted = [...list].sort((a, b) => {
-          if (b.level !== a.level) return b.level - a.level;
-          return b.id.localeCompare(a.id);
-        });
-        return sorted[0]?.id ?? null;
+      // Live resolvers reading the latest snapshot to avoid stale closures
+      pointerEngine.getTopCardId = () => selectTopCardId(engine.getSnapshot());
+      pointerEngine.getAimTarget = () => {
+        const topCardId = selectTopCardId(engine.getSnapshot());
+        return topCardId ? cardElementsRef.current.get(topCardId) ?? null : null;
       };
 
-      // Subscribe to pointer state changes
-      pointerEngine.subscribe(setPointerState);
+      // Pointer state lives in a ref; only the zone and aim are published for rendering
+      pointerEngine.subscribe(state => {
+        pointerStateRef.current = state;
+        uiStore.setState({ pointerZone: state.overZone, isAiming: !!state.isAiming });
+      });
       pointerEngine.start();
     }
 
@@ -185,6 +310,7 @@ export function HoverKitProvider({
         pointerEngineRef.current = null;
       }
     };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   // Schedule card close with animation
@@ -229,7 +355,7 @@ export function HoverKitProvider({
         }, cardFadeDurationMs);
       });
     }, delay);
-  }, [engine, cardFadeDurationMs, getTopCard]);
+  }, [engine, cardFadeDurationMs, getTopCard, setIsScrollFading, setCardAnimations]);
 
   const closeTopCardNow = useCallback(() => {
     setIsScrollFading(false);
@@ -257,10 +383,11 @@ export function HoverKitProvider({
     window.setTimeout(() => {
       engine.closeCard(topCard.id);
     }, Math.max(0, Math.min(cardFadeDurationMs, 75)) || 0);
-  }, [engine, getTopCard, cardFadeDurationMs]);
+  }, [engine, getTopCard, cardFadeDurationMs, setIsScrollFading, setCardAnimations]);
 
   const closeAllCardsNow = useCallback(() => {
-    if (cardsRef.current.length === 0) {
+    const openCards = engine.getSnapshot().cards;
+    if (openCards.length === 0) {
       return;
     }
 
@@ -276,7 +403,7 @@ export function HoverKitProvider({
       scrollFadeTimerRef.current = null;
     }
 
-    const ids = cardsRef.current.map(card => card.id);
+    const ids = openCards.map(card => card.id);
 
     setCardAnimations(prev => {
       const newStates = new Map(prev);
@@ -292,7 +419,7 @@ export function HoverKitProvider({
         engine.closeCard(id);
       });
     }, delay);
-  }, [engine, cardFadeDurationMs]);
+  }, [engine, cardFadeDurationMs, setIsScrollFading, setCardAnimations]);
 
   // Cancel scheduled close
   const cancelTopCardClose = useCallback(() => {
@@ -334,43 +461,160 @@ export function HoverKitProvider({
       clearTimeout(scrollFadeTimerRef.current);
       scrollFadeTimerRef.current = null;
     }
-  }, [getTopCard]);
+  }, [getTopCard, setIsScrollFading, setCardAnimations]);
 
   // React to pointer state changes
-  useEffect(() => {
+  const reactToPointer = useCallback(() => {
     const topCard = getTopCard();
     if (!topCard) {
       hasCascadedRef.current = false;
+      holdRestoredRef.current = false;
       return;
     }
 
-    const animState = cardAnimations.get(topCard.id) || 'idle';
+    const animState = uiStore.getSnapshot().animations.get(topCard.id) || 'idle';
+    const pointerState = pointerStateRef.current;
 
     pointerOverStackRef.current = pointerState.overZone !== 'none';
 
+    // Dwelling on a transient card or a trigger locks the card
+    if (
+      pointerOverStackRef.current &&
+      !topCard.isPinned &&
+      pointerState.overZone !== 'other-card' &&
+      suppressAutoPinRef.current !== topCard.id
+    ) {
+      engine.schedulePin(topCard.id);
+    }
+
+    // A frozen stack ignores the pop rules until the modifier is released
+    if (uiStore.getSnapshot().isFrozen) {
+      cancelTopCardClose();
+      return;
+    }
+
     // Grace period after open to prevent flicker as pointer moves
     const now = Date.now();
     if (now < openGraceUntilRef.current) {
       cancelTopCardClose();
+      // Look again once the grace period is over, in case the pointer already left
+      if (graceTimerRef.current === null) {
+        graceTimerRef.current = window.setTimeout(() => {
+          graceTimerRef.current = null;
+          reactToPointerRef.current();
+        }, openGraceUntilRef.current - now);
+      }
       return;
     }
 
     if (pointerOverStackRef.current) {
+      holdRestoredRef.current = false;
       cancelTopCardClose();
       hasCascadedRef.current = false;
       return;
     }
 
-    // If pointer is not in a safe zone and card is idle, schedule close
+    // Crossing empty space toward the top card counts as staying on the stack
+    if (pointerState.isAiming) {
+      cancelTopCardClose();
+      return;
+    }
+
+    suppressAutoPinRef.current = null;
+    engine.cancelScheduledPin(topCard.id);
+
+    if (holdRestoredRef.current) return;
+
+    // If pointer is not in a safe zone and card is idle, schedule close.
+    // Transient cards go right away; pinned ones wait for the pop timers.
     if (pointerState.overZone === 'none' && animState === 'idle') {
-      const delay = hasCascadedRef.current ? cardCascadePopDelayMs : cardInitialPopDelayMs;
+      const delay = !topCard.isPinned
+        ? TRANSIENT_CLOSE_DELAY_MS
+        : hasCascadedRef.current ? cardCascadePopDelayMs : cardInitialPopDelayMs;
       scheduleTopCardClose(delay);
     }
-  }, [pointerState, getTopCard, cardAnimations, cancelTopCardClose, scheduleTopCardClose, cardInitialPopDelayMs, cardCascadePopDelayMs]);
+  }, [engine, uiStore, getTopCard, cancelTopCardClose, scheduleTopCardClose, cardInitialPopDelayMs, cardCascadePopDelayMs]);
+
+  const reactToPointerRef = useRef(reactToPointer);
+  reactToPointerRef.current = reactToPointer;
+
+  // Re-run the reaction whenever cards, animations or the pointer zone change.
+  // Reactions update the UI store themselves, so nested notifications are queued, not recursed.
+  useEffect(() => {
+    let isReacting = false;
+    let hasPending = false;
+
+    const react = () => {
+      if (isReacting) {
+        hasPending = true;
+        return;
+      }
+      isReacting = true;
+      try {
+        do {
+          hasPending = false;
+          reactToPointerRef.current();
+        } while (hasPending);
+      } finally {
+        isReacting = false;
+      }
+    };
+
+    const unsubscribeEngine = engine.subscribe(react);
+    const unsubscribeUI = uiStore.subscribe(react);
+    react();
+
+    return () => {
+      unsubscribeEngine();
+      unsubscribeUI();
+    };
+  }, [engine, uiStore]);
+
+  const freezeStackModifier = config.behavior.freezeStackModifier;
+
+  useEffect(() => {
+    if (!freezeStackModifier) return;
+
+    const setFrozen = (isFrozen: boolean) => uiStore.setState({ isFrozen });
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === freezeStackModifier) setFrozen(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key === freezeStackModifier) setFrozen(false);
+    };
+    // The keyup is lost when focus leaves the window mid-press
+    const handleBlur = () => setFrozen(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      setFrozen(false);
+    };
+  }, [uiStore, freezeStackModifier]);
+
+  const { closeOnEscape, closeOnClickOutside, closeOnScroll, positioning } = config.behavior;
+
+  useEffect(() => {
+    if (positioning !== 'anchored') return;
+
+    const tracker = new AnchorTracker(engine, {
+      registerScrollContainer: element => pointerEngineRef.current?.registerScrollContainer(element),
+      unregisterScrollContainer: element => pointerEngineRef.current?.unregisterScrollContainer(element),
+    });
+    tracker.start();
+    return () => tracker.stop();
+  }, [engine, positioning]);
 
   useEffect(() => {
+    const isFrozen = () => uiStore.getSnapshot().isFrozen;
+
     const handlePointerDown = (event: PointerEvent) => {
-      if (event.button !== 0) return;
+      if (!closeOnClickOutside || event.button !== 0 || isFrozen()) return;
       
       // Don't close if pointer is over a card or a hover term
       const target = event.target as HTMLElement;
@@ -384,45 +628,96 @@ export function HoverKitProvider({
       closeTopCardNow();
     };
 
-    const handleScroll = () => {
-      closeAllCardsNow();
+    // Last known offsets per scroller, so 'reposition' can shift cards by the delta
+    const scrollOffsets = new WeakMap<EventTarget, { left: number; top: number }>();
+    const readOffset = (target: EventTarget) => target instanceof Element
+      ? { left: target.scrollLeft, top: target.scrollTop }
+      : { left: window.scrollX, top: window.scrollY };
+    scrollOffsets.set(document, readOffset(document));
+
+    // 'top' closes one card per gesture, not one per scroll event
+    let hasClosedThisGesture = false;
+    let gestureTimer: number | null = null;
+
+    // Captured so element scrolls are seen too. Those only count when they move a card's
+    // trigger, and never inside cards or registered containers.
+    const handleScroll = (event: Event) => {
+      const target = event.target;
+      if (!target) return;
+
+      let movedCards = engine.getSnapshot().cards;
+      if (target instanceof Element) {
+        if (target.closest('[data-card-id]')) return;
+        if (pointerEngineRef.current?.isInScrollContainer(target)) return;
+        movedCards = movedCards.filter(card => card.triggerElement && target.contains(card.triggerElement));
+        if (movedCards.length === 0) return;
+      } else if (target !== document && target !== window) {
+        return;
+      }
+
+      const previous = scrollOffsets.get(target);
+      const current = readOffset(target);
+      scrollOffsets.set(target, current);
+
+      if (closeOnScroll === 'none' || isFrozen()) return;
+
+      if (closeOnScroll === 'reposition') {
+        // Anchored cards already follow their triggers
+        if (!previous || positioning === 'anchored') return;
+        const dx = current.left - previous.left;
+        const dy = current.top - previous.top;
+        if (dx === 0 && dy === 0) return;
+        movedCards.forEach(card => {
+          engine.setCardPosition(card.id, { x: card.position.x - dx, y: card.position.y - dy });
+        });
+        return;
+      }
+
+      if (closeOnScroll === 'top') {
+        if (gestureTimer !== null) window.clearTimeout(gestureTimer);
+        gestureTimer = window.setTimeout(() => {
+          gestureTimer = null;
+          hasClosedThisGesture = false;
+        }, SCROLL_GESTURE_GAP_MS);
+
+        if (hasClosedThisGesture) return;
+        hasClosedThisGesture = true;
+        closeTopCardNow();
+      } else {
+        closeAllCardsNow();
+      }
     };
 
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'Escape') {
+      if (closeOnEscape && event.key === 'Escape') {
         closeTopCardNow();
       }
     };
 
     window.addEventListener('pointerdown', handlePointerDown, { passive: true });
-    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('scroll', handleScroll, { passive: true, capture: true });
     window.addEventListener('keydown', handleKeyDown);
 
     return () => {
       window.removeEventListener('pointerdown', handlePointerDown);
-      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('scroll', handleScroll, { capture: true });
       window.removeEventListener('keydown', handleKeyDown);
+      if (gestureTimer !== null) window.clearTimeout(gestureTimer);
     };
-  }, [closeTopCardNow, closeAllCardsNow]);
+  }, [engine, uiStore, closeTopCardNow, closeAllCardsNow, closeOnEscape, closeOnClickOutside, closeOnScroll, positioning]);
 
   useEffect(() => {
     const handleCardOpen = (card: CardState) => {
       setIsScrollFading(false);
+      // A new level always becomes the visible tab
+      uiStore.setState({ activeTabCardId: null });
       // Start grace window for pointer stabilization
       openGraceUntilRef.current = Date.now() + 250;
-      setCards(prev => {
-        const updated = prev.map(c => (c.id === card.id ? card : c));
-        if (!prev.some(c => c.id === card.id)) {
-          updated.push(card);
-        }
-        cardsRef.current = updated;
-        return updated;
-      });
 
-    if (scrollFadeTimerRef.current) {
-      clearTimeout(scrollFadeTimerRef.current);
-      scrollFadeTimerRef.current = null;
-    }
+      if (scrollFadeTimerRef.current) {
+        clearTimeout(scrollFadeTimerRef.current);
+        scrollFadeTimerRef.current = null;
+      }
 
       hasCascadedRef.current = false;
 
@@ -453,13 +748,29 @@ export function HoverKitProvider({
       }
     };
 
+    // Loaded content resizes the card; give the pointer the same grace as on open.
+    // Pin progress and other flag changes don't affect layout and are skipped.
+    const layoutByCard = new Map<string, unknown[]>();
+    const handleCardUpdate = (card: CardState) => {
+      const layout = [card.isLoading, card.content, card.error, card.notFound];
+      const previous = layoutByCard.get(card.id);
+      layoutByCard.set(card.id, layout);
+      if (previous && previous.every((value, index) => Object.is(value, layout[index]))) return;
+
+      openGraceUntilRef.current = Date.now() + 250;
+      pointerEngineRef.current?.forceCheckPointerZone();
+    };
+
+    const handleCardUnpin = (cardId: string) => {
+      suppressAutoPinRef.current = cardId;
+    };
+
     const handleCardClose = (cardId: string) => {
+      layoutByCard.delete(cardId);
+      if (uiStore.getSnapshot().activeTabCardId === cardId) {
+        uiStore.setState({ activeTabCardId: null });
+      }
       setIsScrollFading(false);
-      setCards(prev => {
-        const updated = prev.filter(c => c.id !== cardId);
-        cardsRef.current = updated;
-        return updated;
-      });
       if (scrollFadeTimerRef.current) {
         clearTimeout(scrollFadeTimerRef.current);
         scrollFadeTimerRef.current = null;
@@ -486,13 +797,17 @@ export function HoverKitProvider({
     };
 
     engine.on('cardOpen', handleCardOpen);
+    engine.on('cardUpdate', handleCardUpdate);
     engine.on('cardClose', handleCardClose);
+    engine.on('cardUnpin', handleCardUnpin);
 
     return () => {
       engine.off('cardOpen', handleCardOpen);
+      engine.off('cardUpdate', handleCardUpdate);
       engine.off('cardClose', handleCardClose);
+      engine.off('cardUnpin', handleCardUnpin);
     };
-  }, [engine]);
+  }, [engine, uiStore, setIsScrollFading, setCardAnimations]);
 
   // Register/unregister elements with pointer engine
   const registerActiveTrigger = useCallback((element: HTMLElement, term: string) => {
@@ -520,82 +835,83 @@ export function HoverKitProvider({
     cardElementsRef.current.delete(cardId);
   }, []);
 
-  const getCardElement = useCallback((cardId: string) => {
-    return cardElementsRef.current.get(cardId) ?? null;
+  const registerScrollContainer = useCallback((element: HTMLElement) => {
+    pointerEngineRef.current?.registerScrollContainer(element);
   }, []);
 
-  // Create backward-compatible UI states from animation states
-  const cardUIStates = useMemo(() => {
-    const uiStates = new Map<string, CardUIState>();
-    cards.forEach(card => {
-      const animState = cardAnimations.get(card.id) || 'idle';
-      uiStates.set(card.id, {
-        animationState: animState,
-        isPointerInside: pointerState.overZone === 'top-card' && getTopCard()?.id === card.id
-      });
-    });
-    return uiStates;
-  }, [cards, cardAnimations, pointerState, getTopCard]);
-
-  const clamp = useCallback((value: number, min: number, max: number) => {
-    return Math.max(min, Math.min(max, value));
+  const unregisterScrollContainer = useCallback((element: HTMLElement) => {
+    pointerEngineRef.current?.unregisterScrollContainer(element);
   }, []);
 
-  const computeRootCardPosition = useCallback((element: HTMLElement, fallback: { x: number; y: number }) => {
-    if (typeof window === 'undefined') {
-      return fallback;
-    }
-
-    const rect = element.getBoundingClientRect();
-    const viewportWidth = window.innerWidth;
-    const viewportHeight = window.innerHeight;
-
-    const targetX = rect.left + rect.width / 2;
-    const targetY = rect.bottom + ROOT_EDGE_PADDING + CARD_HEIGHT / 2;
-
-    const minX = ROOT_EDGE_PADDING + CARD_WIDTH / 2;
-    const maxX = viewportWidth - ROOT_EDGE_PADDING - CARD_WIDTH / 2;
-    const minY = ROOT_EDGE_PADDING + CARD_HEIGHT / 2;
-    const maxY = viewportHeight - ROOT_EDGE_PADDING - CARD_HEIGHT / 2;
+  const getCardElement = useCallback((cardId: string) => {
+    return cardElementsRef.current.get(cardId) ?? null;
+  }, []);
 
-    return {
-      x: clamp(targetX, minX, maxX),
-      y: clamp(targetY, minY, maxY),
-    };
-  }, [ROOT_EDGE_PADDING, CARD_HEIGHT, CARD_WIDTH, clamp]);
+  const pinOnHoverDelayMs = config.behavior.pinOnHoverDelayMs;
+  const stackBehavior = config.behavior.stackBehavior;
+  const stackOffsetPixels = config.behavior.stackOffsetPixels;
+  const showCloseButton = config.behavior.showCloseButton;
+  const showBreadcrumbs = config.behavior.showBreadcrumbs;
 
-  const contextValue: HoverKitContextValue = {
+  const actions = useMemo<HoverKitActionsContextValue>(() => ({
     engine,
-    cards,
-    cardUIStates,
-    isScrollFading,
+    uiStore,
     cardInitialPopDelayMs,
     cardCascadePopDelayMs,
     cardFadeDurationMs,
-    stackBehavior: config.behavior.stackBehavior,
-    stackOffsetPixels: config.behavior.stackOffsetPixels,
-    showCloseButton: config.behavior.showCloseButton,
+    pinOnHoverDelayMs,
+    stackBehavior,
+    stackOffsetPixels,
+    showCloseButton,
+    showBreadcrumbs,
     openCard: async (term, element, position, parentId) => {
-      // Engine's openCard is patched to compute root position when parentId is undefined
+      // The root-position plugin places the card when parentId is undefined
       return engine.openCard(term, element, position, parentId);
     },
     closeCard: (cardId) => {
       engine.closeCard(cardId);
     },
-    followLink: async (linkTerm, fromCardId, position) => {
-      return engine.followLink(linkTerm, fromCardId, position);
+    followLink: async (linkTerm, fromCardId, position, linkElement) => {
+      return engine.followLink(linkTerm, fromCardId, position, linkElement);
     },
     registerActiveTrigger,
     unregisterActiveTrigger,
     registerCardElement,
     unregisterCardElement,
     getCardElement,
-  };
+    registerScrollContainer,
+    unregisterScrollContainer,
+    closeOnEscape,
+    viewportPaddingPixels: config.behavior.viewportPaddingPixels,
+    selectTab: (cardId) => {
+      uiStore.setState({ activeTabCardId: cardId });
+    },
+  }), [
+    engine,
+    uiStore,
+    cardInitialPopDelayMs,
+    cardCascadePopDelayMs,
+    cardFadeDurationMs,
+    pinOnHoverDelayMs,
+    stackBehavior,
+    stackOffsetPixels,
+    showCloseButton,
+    showBreadcrumbs,
+    registerActiveTrigger,
+    unregisterActiveTrigger,
+    registerCardElement,
+    unregisterCardElement,
+    getCardElement,
+    registerScrollContainer,
+    unregisterScrollContainer,
+    closeOnEscape,
+    config.behavior.viewportPaddingPixels,
+  ]);
 
   return (
-    <HoverKitContext.Provider value={contextValue}>
+    <HoverKitActionsContext.Provider value={actions}>
       {children}
       <CardStackPortal />
-    </HoverKitContext.Provider>
+    </HoverKitActionsContext.Provider>
   );
 }
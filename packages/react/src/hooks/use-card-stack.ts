@@ -0,0 +1,91 @@
+import {
+  selectCard,
+  selectCardChain,
+  selectHasChildren,
+  selectTopCardId,
+  type CardState,
+} from 'cascade-cards-core';
+import type { CardAnimationState } from '../components/provider.js';
+import { useHoverKitActions } from './use-hoverkit.js';
+import { shallowEqualArrays, useEngineSelector, useStoreSelector } from './use-engine-store.js';
+
+export function useCard(cardId: string): CardState | undefined {
+  const { engine } = useHoverKitActions();
+  return useEngineSelector(engine, snapshot => selectCard(snapshot, cardId));
+}
+
+export function useCardIds(): readonly string[] {
+  const { engine } = useHoverKitActions();
+  return useEngineSelector(engine, snapshot => snapshot.cards.map(card => card.id), shallowEqualArrays);
+}
+
+export function useTopCardId(): string | null {
+  const { engine } = useHoverKitActions();
+  return useEngineSelector(engine, selectTopCardId);
+}
+
+// Narrower than comparing useTopCardId() so only the old and new top cards re-render
+export function useIsTopCard(cardId: string): boolean {
+  const { engine } = useHoverKitActions();
+  return useEngineSelector(engine, snapshot => selectTopCardId(snapshot) === cardId);
+}
+
+export function useCardAnimation(cardId: string): CardAnimationState {
+  const { uiStore } = useHoverKitActions();
+  return useStoreSelector(uiStore, state => state.animations.get(cardId) ?? 'idle');
+}
+
+export function useIsScrollFading(): boolean {
+  const { uiStore } = useHoverKitActions();
+  return useStoreSelector(uiStore, state => state.isScrollFading);
+}
+
+export function useIsStackFrozen(): boolean {
+  const { uiStore } = useHoverKitActions();
+  return useStoreSelector(uiStore, state => state.isFrozen);
+}
+
+// The card and its ancestors, root first
+export function useCardChain(cardId: string): readonly CardState[] {
+  const { engine } = useHoverKitActions();
+  return useEngineSelector(engine, snapshot => selectCardChain(snapshot, cardId), shallowEqualArrays);
+}
+
+export interface CardTabs {
+  // Cards shown as tabs, root first; empty unless stackBehavior is 'tabs'
+  tabs: readonly CardState[];
+  activeTabId: string | null;
+  isHidden: boolean;
+}
+
+const NO_TABS: readonly CardState[] = [];
+
+// In the 'tabs' layout a card is visible when it is the picked tab, or when nothing
+// deeper in its chain is open and no ancestor has been picked
+export function useCardTabs(cardId: string): CardTabs {
+  const { engine, uiStore, stackBehavior } = useHoverKitActions();
+  const isTabs = stackBehavior === 'tabs';
+
+  const pickedTabId = useStoreSelector(uiStore, state => isTabs ? state.activeTabCardId : null);
+  const hasChildren = useEngineSelector(engine, snapshot => isTabs && selectHasChildren(snapshot, cardId));
+  const tabs = useEngineSelector(engine, snapshot => {
+    if (!isTabs) return NO_TABS;
+    // Show the whole path to the top card when this card is on it
+    const topCardId = selectTopCardId(snapshot);
+    const topChain = topCardId ? selectCardChain(snapshot, topCardId) : [];
+    return topChain.some(card => card.id === cardId) ? topChain : selectCardChain(snapshot, cardId);
+  }, shallowEqualArrays);
+
+  const activeTabId = pickedTabId && tabs.some(tab => tab.id === pickedTabId)
+    ? pickedTabId
+    : tabs[tabs.length - 1]?.id ?? null;
+
+  let isHidden = false;
+  if (isTabs) {
+    const ownIndex = tabs.findIndex(tab => tab.id === cardId);
+    const pickedIndex = pickedTabId ? tabs.findIndex(tab => tab.id === pickedTabId) : -1;
+    isHidden = pickedIndex >= 0 ? pickedIndex !== ownIndex : hasChildren;
+  }
+
+  return { tabs, activeTabId, isHidden };
+}
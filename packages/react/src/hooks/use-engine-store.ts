@@ -0,0 +1,49 @@
+import { useEffect, useReducer, useRef } from 'react';
+import type { HoverEngine, HoverEngineSnapshot } from 'cascade-cards-core';
+import type { ExternalStore } from '../lib/ui-store.js';
+
+// Subscribes to a slice of an external store and re-renders only when that slice changes.
+// Works on React 17 as well as 18+, which is why it doesn't rely on useSyncExternalStore.
+export function useStoreSelector<S, T>(
+  store: ExternalStore<S>,
+  selector: (snapshot: S) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+  const selected = selector(store.getSnapshot());
+
+  const latestRef = useRef({ selector, isEqual, selected });
+  latestRef.current = { selector, isEqual, selected };
+
+  useEffect(() => {
+    const check = () => {
+      const { selector: select, isEqual: equals, selected: previous } = latestRef.current;
+      if (!equals(previous, select(store.getSnapshot()))) {
+        forceRender();
+      }
+    };
+
+    const unsubscribe = store.subscribe(check);
+    // Catch updates that landed between render and subscription
+    check();
+    return unsubscribe;
+  }, [store]);
+
+  return selected;
+}
+
+export function useEngineSelector<T>(
+  engine: HoverEngine,
+  selector: (snapshot: HoverEngineSnapshot) => T,
+  isEqual?: (a: T, b: T) => boolean
+): T {
+  return useStoreSelector(engine, selector, isEqual);
+}
+
+export function useEngineSnapshot(engine: HoverEngine): HoverEngineSnapshot {
+  return useEngineSelector(engine, snapshot => snapshot);
+}
+
+export function shallowEqualArrays<T>(a: readonly T[], b: readonly T[]): boolean {
+  return a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
+}
@@ -1,8 +1,69 @@
-import { useContext } from 'react';
-import { HoverKitContext } from '../components/provider.js';
+import { useContext, useMemo } from 'react';
+import { selectCards, selectTopCardId, type HoverEngineSnapshot } from 'cascade-cards-core';
+import {
+  HoverKitActionsContext,
+  type CardUIState,
+  type HoverKitActionsContextValue,
+  type HoverKitContextValue,
+  type StackUIState,
+} from '../components/provider.js';
+import type { ExternalStore } from '../lib/ui-store.js';
+import { useStoreSelector } from './use-engine-store.js';
 
-export function useHoverKit() {
-  const context = useContext(HoverKitContext);
+// Stand-ins so the legacy hooks can subscribe unconditionally outside a provider
+const EMPTY_ENGINE_STORE: ExternalStore<HoverEngineSnapshot> = {
+  subscribe: () => () => {},
+  getSnapshot: () => ({ cards: [], version: 0 }),
+};
+
+const EMPTY_UI_STORE: ExternalStore<StackUIState> = {
+  subscribe: () => () => {},
+  getSnapshot: () => ({ animations: new Map(), isScrollFading: false, pointerZone: 'none', isFrozen: false, isAiming: false, activeTabCardId: null }),
+};
+
+export function useHoverKitActions(): HoverKitActionsContextValue {
+  const actions = useContext(HoverKitActionsContext);
+
+  if (!actions) {
+    throw new Error('useHoverKitActions must be used within a HoverKitProvider');
+  }
+
+  return actions;
+}
+
+export function useHoverKitActionsOptional(): HoverKitActionsContextValue | null {
+  return useContext(HoverKitActionsContext);
+}
+
+// Combines the stable actions with the current stack state. Re-renders on every
+// card, animation or pointer-zone change; prefer the narrower hooks in use-card-stack.
+function useHoverKitValue(actions: HoverKitActionsContextValue | null): HoverKitContextValue | null {
+  const cards = useStoreSelector(actions?.engine ?? EMPTY_ENGINE_STORE, selectCards);
+  const topCardId = useStoreSelector(actions?.engine ?? EMPTY_ENGINE_STORE, selectTopCardId);
+  const ui = useStoreSelector(actions?.uiStore ?? EMPTY_UI_STORE, state => state);
+
+  return useMemo(() => {
+    if (!actions) return null;
+
+    const cardUIStates = new Map<string, CardUIState>();
+    cards.forEach(card => {
+      cardUIStates.set(card.id, {
+        animationState: ui.animations.get(card.id) || 'idle',
+        isPointerInside: ui.pointerZone === 'top-card' && topCardId === card.id,
+      });
+    });
+
+    return {
+      ...actions,
+      cards,
+      cardUIStates,
+      isScrollFading: ui.isScrollFading,
+    };
+  }, [actions, cards, topCardId, ui]);
+}
+
+export function useHoverKit(): HoverKitContextValue {
+  const context = useHoverKitValue(useContext(HoverKitActionsContext));
   
   if (!context) {
     throw new Error('useHoverKit must be used within a HoverKitProvider');
@@ -11,6 +72,6 @@ export function useHoverKit() {
   return context;
 }
 
-export function useHoverKitOptional() {
-  return useContext(HoverKitContext);
+export function useHoverKitOptional(): HoverKitContextValue | null {
+  return useHoverKitValue(useContext(HoverKitActionsContext));
 }
@@ -1,16 +1,42 @@
-export { HoverKitProvider, type HoverKitContextValue } from './components/provider.js';
+export {
+  HoverKitProvider,
+  type HoverKitContextValue,
+  type HoverKitActionsContextValue,
+  type CardAnimationState,
+  type CardUIState,
+} from './components/provider.js';
 export { HoverCard, HoverCardTrigger, HoverCardContent } from './components/hover-card.js';
 export { HoverTerm } from './components/hover-term.js';
 export { HoverHighlighter } from './components/hover-highlighter.js';
 export { HoverKitSlots } from './components/hover-slots.js';
-export { useHoverKit, useHoverKitOptional } from './hooks/use-hoverkit.js';
+export { useHoverKit, useHoverKitOptional, useHoverKitActions, useHoverKitActionsOptional } from './hooks/use-hoverkit.js';
+export {
+  useCard,
+  useCardIds,
+  useTopCardId,
+  useIsTopCard,
+  useCardAnimation,
+  useIsScrollFading,
+  useIsStackFrozen,
+  useCardChain,
+  useCardTabs,
+} from './hooks/use-card-stack.js';
+export { useEngineSelector, useEngineSnapshot } from './hooks/use-engine-store.js';
 export { useRenderedMarkdown } from './lib/render-markdown.js';
+export type { UrlSyncOptions } from './lib/url-state.js';
+export type { CardTabs } from './hooks/use-card-stack.js';
 
 // Re-export core types for convenience
 export type {
   DataSource,
   DataSourceContent,
+  ResolveOptions,
+  TermDefinition,
   HoverKitConfig,
   CardState,
-  HoverKitEvents
+  CardError,
+  HoverKitEvents,
+  HoverEnginePlugin,
+  HoverEngineSnapshot,
+  SerializedCardStack
 } from 'cascade-cards-core';
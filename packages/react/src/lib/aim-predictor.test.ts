@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { AimPredictor, buildAimTriangle, isHeadingToward, isPointInTriangle, type AimTriangle } from './aim-predictor.js';
+
+const card = { left: 200, top: 100, right: 400, bottom: 300 };
+const apex = { x: 100, y: 200 };
+const options = { timeoutMs: 300, minSpeed: 100, tolerance: 0 };
+
+describe('isPointInTriangle', () => {
+  const triangle: AimTriangle = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }];
+
+  it('accepts points inside or on the edge', () => {
+    expect(isPointInTriangle({ x: 20, y: 20 }, triangle)).toBe(true);
+    expect(isPointInTriangle({ x: 50, y: 50 }, triangle)).toBe(true);
+  });
+
+  it('rejects points outside', () => {
+    expect(isPointInTriangle({ x: 60, y: 60 }, triangle)).toBe(false);
+    expect(isPointInTriangle({ x: -1, y: 10 }, triangle)).toBe(false);
+  });
+});
+
+describe('buildAimTriangle', () => {
+  it('spans the corners the card is seen between', () => {
+    expect(buildAimTriangle(apex, card)).toEqual([apex, { x: 200, y: 100 }, { x: 200, y: 300 }]);
+  });
+
+  it('is null when the apex is inside the card', () => {
+    expect(buildAimTriangle({ x: 300, y: 200 }, card)).toBeNull();
+  });
+});
+
+describe('isHeadingToward', () => {
+  it('follows the heading ray', () => {
+    expect(isHeadingToward({ x: 150, y: 50 }, { x: 500, y: 200 }, card, 100)).toBe(true);
+    expect(isHeadingToward({ x: 150, y: 50 }, { x: 500, y: -200 }, card, 100)).toBe(false);
+    expect(isHeadingToward({ x: 150, y: 50 }, { x: -500, y: 200 }, card, 100)).toBe(false);
+  });
+
+  it('ignores movement slower than the minimum speed', () => {
+    expect(isHeadingToward({ x: 150, y: 200 }, { x: 99, y: 0 }, card, 100)).toBe(false);
+    expect(isHeadingToward({ x: 150, y: 200 }, { x: 100, y: 0 }, card, 100)).toBe(true);
+  });
+});
+
+describe('AimPredictor', () => {
+  it('never aims before the pointer was anchored in a safe zone', () => {
+    const predictor = new AimPredictor(options);
+
+    expect(predictor.evaluate({ x: 150, y: 200 }, { x: 500, y: 0 }, card, 0)).toEqual({
+      isAiming: false,
+      triangle: null,
+      expiresAt: null,
+    });
+  });
+
+  it('stops aiming once reset', () => {
+    const predictor = new AimPredictor(options);
+    predictor.anchor(apex);
+    predictor.reset();
+
+    expect(predictor.evaluate({ x: 150, y: 200 }, undefined, card, 0).isAiming).toBe(false);
+  });
+
+  it('aims inside the triangle until the timeout runs out', () => {
+    const predictor = new AimPredictor(options);
+    predictor.anchor(apex);
+
+    expect(predictor.evaluate({ x: 150, y: 200 }, undefined, card, 1000)).toMatchObject({ isAiming: true, expiresAt: 1300 });
+    expect(predictor.evaluate({ x: 150, y: 200 }, undefined, card, 1299).isAiming).toBe(true);
+    expect(predictor.evaluate({ x: 150, y: 200 }, undefined, card, 1300)).toMatchObject({ isAiming: false, expiresAt: null });
+  });
+
+  it('restarts the timeout when the pointer is anchored again', () => {
+    const predictor = new AimPredictor(options);
+    predictor.anchor(apex);
+    predictor.evaluate({ x: 150, y: 200 }, undefined, card, 1000);
+    predictor.anchor(apex);
+
+    expect(predictor.evaluate({ x: 150, y: 200 }, undefined, card, 2000)).toMatchObject({ isAiming: true, expiresAt: 2300 });
+  });
+
+  it('counts a fast enough heading outside the triangle', () => {
+    const predictor = new AimPredictor(options);
+    predictor.anchor(apex);
+    const outside = { x: 150, y: 120 };
+
+    expect(predictor.evaluate(outside, undefined, card, 0).isAiming).toBe(false);
+    expect(predictor.evaluate(outside, { x: 50, y: 0 }, card, 0).isAiming).toBe(false);
+    expect(predictor.evaluate(outside, { x: 500, y: 0 }, card, 0).isAiming).toBe(true);
+  });
+
+  it('grows the card by the tolerance', () => {
+    const predictor = new AimPredictor(options);
+    predictor.anchor(apex);
+    const above = { x: 150, y: 95 };
+
+    expect(predictor.evaluate(above, { x: 500, y: 0 }, card, 0).isAiming).toBe(false);
+    predictor.setOptions({ ...options, tolerance: 10 });
+    expect(predictor.evaluate(above, { x: 500, y: 0 }, card, 0).isAiming).toBe(true);
+  });
+});
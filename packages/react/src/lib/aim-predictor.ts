@@ -0,0 +1,164 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type AimTriangle = [Point, Point, Point];
+
+export interface AimOptions {
+  // How long after leaving a safe zone the pointer may still be heading for the card
+  timeoutMs: number;
+  // Minimum speed toward the card, in px/s, that counts as aiming on its own
+  minSpeed: number;
+  // Grows the card's rect on every side before building the triangle
+  tolerance: number;
+}
+
+export interface AimResult {
+  isAiming: boolean;
+  triangle: AimTriangle | null;
+  // When the current aim stops counting, if one is in progress
+  expiresAt: number | null;
+}
+
+const NOT_AIMING: AimResult = { isAiming: false, triangle: null, expiresAt: null };
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+function expand(rect: Box, by: number): Box {
+  return { left: rect.left - by, top: rect.top - by, right: rect.right + by, bottom: rect.bottom + by };
+}
+
+function contains(box: Box, point: Point): boolean {
+  return point.x >= box.left && point.x <= box.right && point.y >= box.top && point.y <= box.bottom;
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+export function isPointInTriangle(point: Point, [a, b, c]: AimTriangle): boolean {
+  const d1 = cross(a, b, point);
+  const d2 = cross(b, c, point);
+  const d3 = cross(c, a, point);
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(hasNegative && hasPositive);
+}
+
+// The triangle from `apex` to the two corners of `box` that span the widest angle,
+// i.e. the box's silhouette as seen from the apex. Null when the apex is inside the box.
+export function buildAimTriangle(apex: Point, box: Box): AimTriangle | null {
+  if (contains(box, apex)) return null;
+
+  const corners: Point[] = [
+    { x: box.left, y: box.top },
+    { x: box.right, y: box.top },
+    { x: box.right, y: box.bottom },
+    { x: box.left, y: box.bottom },
+  ];
+
+  let best: [Point, Point] = [corners[0], corners[1]];
+  let widest = -1;
+  for (let i = 0; i < corners.length; i++) {
+    for (let j = i + 1; j < corners.length; j++) {
+      const angle = angleBetween(apex, corners[i], corners[j]);
+      if (angle > widest) {
+        widest = angle;
+        best = [corners[i], corners[j]];
+      }
+    }
+  }
+
+  return [apex, best[0], best[1]];
+}
+
+function angleBetween(origin: Point, a: Point, b: Point): number {
+  const ax = a.x - origin.x;
+  const ay = a.y - origin.y;
+  const bx = b.x - origin.x;
+  const by = b.y - origin.y;
+  const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by);
+  if (lengths === 0) return 0;
+  return Math.acos(Math.max(-1, Math.min(1, (ax * bx + ay * by) / lengths)));
+}
+
+// True when the pointer moves at least `minSpeed` and its heading ray hits the box (slab test)
+export function isHeadingToward(point: Point, velocity: Point, box: Box, minSpeed: number): boolean {
+  if (Math.hypot(velocity.x, velocity.y) < minSpeed) return false;
+
+  let tMin = 0;
+  let tMax = Infinity;
+  const axes: Array<[number, number, number, number]> = [
+    [point.x, velocity.x, box.left, box.right],
+    [point.y, velocity.y, box.top, box.bottom],
+  ];
+
+  for (const [origin, direction, min, max] of axes) {
+    if (direction === 0) {
+      if (origin < min || origin > max) return false;
+      continue;
+    }
+    const t1 = (min - origin) / direction;
+    const t2 = (max - origin) / direction;
+    tMin = Math.max(tMin, Math.min(t1, t2));
+    tMax = Math.min(tMax, Math.max(t1, t2));
+    if (tMin > tMax) return false;
+  }
+
+  return true;
+}
+
+// Tracks where the pointer left its last safe zone and decides whether it is
+// still on its way to the target card.
+export class AimPredictor {
+  private apex: Point | null = null;
+  private leftAt: number | null = null;
+
+  constructor(private options: AimOptions) {}
+
+  setOptions(options: AimOptions): void {
+    this.options = options;
+  }
+
+  // Called while the pointer is inside a safe zone
+  anchor(point: Point): void {
+    this.apex = point;
+    this.leftAt = null;
+  }
+
+  reset(): void {
+    this.apex = null;
+    this.leftAt = null;
+  }
+
+  // Called while the pointer is outside every safe zone
+  evaluate(point: Point, velocity: Point | undefined, target: Box, now: number): AimResult {
+    if (!this.apex) return NOT_AIMING;
+
+    if (this.leftAt === null) {
+      this.leftAt = now;
+    }
+    const expiresAt = this.leftAt + this.options.timeoutMs;
+    const box = expand(target, this.options.tolerance);
+    const triangle = buildAimTriangle(this.apex, box);
+
+    if (now >= expiresAt) {
+      return { isAiming: false, triangle, expiresAt: null };
+    }
+
+    const isInside = triangle ? isPointInTriangle(point, triangle) : false;
+    const isHeading = velocity ? isHeadingToward(point, velocity, box, this.options.minSpeed) : false;
+
+    return {
+      isAiming: isInside || isHeading,
+      triangle,
+      expiresAt,
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import type { HoverEngine } from 'cascade-cards-core';
+
+export interface AnchorTrackerOptions {
+  registerScrollContainer: (element: HTMLElement) => void;
+  unregisterScrollContainer: (element: HTMLElement) => void;
+}
+
+const SCROLLABLE_OVERFLOW = /(auto|scroll|overlay)/;
+
+// Scrollable ancestors below the document scroller, nearest first
+export function getScrollableAncestors(element: HTMLElement): HTMLElement[] {
+  const ancestors: HTMLElement[] = [];
+  let current = element.parentElement;
+
+  while (current && current !== document.body && current !== document.documentElement) {
+    const style = window.getComputedStyle(current);
+    if (SCROLLABLE_OVERFLOW.test(style.overflow + style.overflowX + style.overflowY)) {
+      ancestors.push(current);
+    }
+    current = current.parentElement;
+  }
+
+  return ancestors;
+}
+
+// Keeps anchored cards next to their triggers. Repositions at most once per frame on
+// scroll (anywhere), window resize and trigger size changes, and registers each
+// trigger's scrollable ancestors with the pointer engine while a card uses them.
+export class AnchorTracker {
+  private frameRequest: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  // Each tracked trigger with the scroll containers registered for it
+  private triggers = new Map<HTMLElement, HTMLElement[]>();
+  // Ref counts, since several triggers often share a scroll container
+  private scrollContainers = new Map<HTMLElement, number>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private engine: HoverEngine, private options: AnchorTrackerOptions) {}
+
+  start() {
+    window.addEventListener('scroll', this.scheduleReposition, { passive: true, capture: true });
+    window.addEventListener('resize', this.scheduleReposition, { passive: true });
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(this.scheduleReposition);
+      // Layout shifts elsewhere on the page usually change the body's size too
+      this.resizeObserver.observe(document.body);
+    }
+
+    this.unsubscribe = this.engine.subscribe(this.syncTriggers);
+    this.syncTriggers();
+  }
+
+  stop() {
+    window.removeEventListener('scroll', this.scheduleReposition, { capture: true });
+    window.removeEventListener('resize', this.scheduleReposition);
+
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+
+    if (this.frameRequest) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+
+    Array.from(this.triggers.keys()).forEach(trigger => this.untrack(trigger));
+  }
+
+  private scheduleReposition = () => {
+    if (this.frameRequest) return;
+    this.frameRequest = requestAnimationFrame(() => {
+      this.frameRequest = null;
+      this.engine.repositionAnchoredCards();
+    });
+  };
+
+  private syncTriggers = () => {
+    const current = new Set<HTMLElement>();
+    this.engine.getSnapshot().cards.forEach(card => {
+      if (card.triggerElement) current.add(card.triggerElement);
+    });
+
+    Array.from(this.triggers.keys()).forEach(trigger => {
+      if (!current.has(trigger)) this.untrack(trigger);
+    });
+    current.forEach(trigger => {
+      if (!this.triggers.has(trigger)) this.track(trigger);
+    });
+  };
+
+  private track(trigger: HTMLElement) {
+    const containers = getScrollableAncestors(trigger);
+    this.triggers.set(trigger, containers);
+    this.resizeObserver?.observe(trigger);
+
+    containers.forEach(container => {
+      const count = this.scrollContainers.get(container) ?? 0;
+      if (count === 0) this.options.registerScrollContainer(container);
+      this.scrollContainers.set(container, count + 1);
+    });
+  }
+
+  private untrack(trigger: HTMLElement) {
+    const containers = this.triggers.get(trigger) ?? [];
+    this.triggers.delete(trigger);
+    this.resizeObserver?.unobserve(trigger);
+
+    containers.forEach(container => {
+      const count = this.scrollContainers.get(container) ?? 0;
+      if (count <= 1) {
+        this.scrollContainers.delete(container);
+        this.options.unregisterScrollContainer(container);
+      } else {
+        this.scrollContainers.set(container, count - 1);
+      }
+    });
+  }
+}
@@ -1,3 +1,5 @@
+import { AimPredictor, type AimOptions, type AimTriangle } from './aim-predictor.js';
+
 export type PointerZone = 'top-card' | 'other-card' | 'trigger' | 'none';
 export type InputType = 'mouse' | 'touch' | 'pen';
 
@@ -8,12 +10,16 @@ export interface PointerState {
   timestamp: number;
   inputType: InputType;
   velocity?: { x: number; y: number };
+  // Outside every zone but still heading for the top card
+  isAiming?: boolean;
 }
 
 export interface PointerEngineOptions {
   debug?: boolean;
   skipFrameThreshold?: number;
   velocitySmoothing?: number;
+  // Aim detection toward the card returned by getAimTarget(); off when omitted
+  aim?: AimOptions | null;
 }
 
 export type PointerEngineListener = (state: PointerState) => void;
@@ -36,8 +42,15 @@ export class PointerEngine {
   private frameSkipCounter = 0;
   private lastCheckBounds = new WeakMap<HTMLElement, DOMRect>();
   private debugOverlay: HTMLElement | null = null;
+  private debugCanvas: SVGSVGElement | null = null;
+  private aimPredictor: AimPredictor | null = null;
+  private aimTriangle: AimTriangle | null = null;
+  private aimTimer: number | null = null;
   
   constructor(private options: PointerEngineOptions = {}) {
+    if (options.aim) {
+      this.aimPredictor = new AimPredictor(options.aim);
+    }
     if (options.debug) {
       this.createDebugOverlay();
     }
@@ -66,6 +79,7 @@ export class PointerEngine {
       cancelAnimationFrame(this.frameRequest);
       this.frameRequest = null;
     }
+    this.clearAimTimer();
     
     this.removeDebugOverlay();
     this.scrollContainers.forEach(el => {
@@ -103,6 +117,13 @@ export class PointerEngine {
     element.removeEventListener('scroll', this.handleScroll);
   }
 
+  isInScrollContainer(node: Node): boolean {
+    for (const container of this.scrollContainers) {
+      if (container.contains(node)) return true;
+    }
+    return false;
+  }
+
   subscribe(listener: PointerEngineListener) {
     this.listeners.add(listener);
     // Immediately provide current state
@@ -118,6 +139,24 @@ export class PointerEngine {
     return null;
   }
 
+  getAimTarget(): HTMLElement | null {
+    // This will be provided by the consumer
+    return null;
+  }
+
+  setAimOptions(aim: AimOptions | null) {
+    if (!aim) {
+      this.aimPredictor = null;
+      this.aimTriangle = null;
+      this.clearAimTimer();
+    } else if (this.aimPredictor) {
+      this.aimPredictor.setOptions(aim);
+    } else {
+      this.aimPredictor = new AimPredictor(aim);
+    }
+    this.checkPointerZone();
+  }
+
   setTopCardId(id: string | null) {
     // Allow provider to inform us of the current top card
     this.checkPointerZone();
@@ -192,7 +231,8 @@ export class PointerEngine {
       overZone: this.lastPointer.overZone,
       timestamp: now,
       inputType,
-      velocity
+      velocity,
+      isAiming: this.lastPointer.isAiming
     };
 
     // Skip frame optimization
@@ -219,12 +259,16 @@ export class PointerEngine {
   }
 
   private checkPointerZone() {
+    const zone = this.findZone();
+    this.setZone(zone, this.updateAim(zone));
+  }
+
+  private findZone(): PointerZone {
     const { x, y } = this.lastPointer;
     
     // If pointer is outside viewport
     if (x < 0 || y < 0) {
-      this.setZone('none');
-      return;
+      return 'none';
     }
 
     // Get elements at point
@@ -236,23 +280,68 @@ export class PointerEngine {
       if (cardEl && this.cards.has(cardEl)) {
         const cardId = this.cards.get(cardEl)!;
         const topCardId = this.getTopCardId();
-        const zone: PointerZone = cardId === topCardId ? 'top-card' : 'other-card';
-        this.setZone(zone);
-        return;
+        return cardId === topCardId ? 'top-card' : 'other-card';
       }
     }
 
-    // Check for triggers
+    // Check for triggers; spans added by highlightElement are wired up by the engine, not registered
     for (const el of elements) {
-      const triggerEl = el.closest('[data-hover-term]') as HTMLElement;
-      if (triggerEl && this.triggers.has(triggerEl)) {
-        this.setZone('trigger');
-        return;
+      const triggerEl = el.closest('[data-hover-term], [data-hoverkit-match]') as HTMLElement;
+      if (triggerEl && (this.triggers.has(triggerEl) || triggerEl.hasAttribute('data-hoverkit-match'))) {
+        return 'trigger';
       }
     }
 
     // Nothing found
-    this.setZone('none');
+    return 'none';
+  }
+
+  // Safe zones re-anchor the triangle; outside them we ask whether the pointer is still on course
+  private updateAim(zone: PointerZone): boolean {
+    const predictor = this.aimPredictor;
+    if (!predictor) return false;
+
+    const { x, y, velocity } = this.lastPointer;
+    if (x < 0 || y < 0) {
+      predictor.reset();
+      this.aimTriangle = null;
+      this.clearAimTimer();
+      return false;
+    }
+
+    if (zone !== 'none') {
+      predictor.anchor({ x, y });
+      this.aimTriangle = null;
+      this.clearAimTimer();
+      return false;
+    }
+
+    const target = this.getAimTarget();
+    if (!target) {
+      this.aimTriangle = null;
+      return false;
+    }
+
+    const now = Date.now();
+    const result = predictor.evaluate({ x, y }, velocity, target.getBoundingClientRect(), now);
+    this.aimTriangle = result.triangle;
+
+    // The pointer may stop moving mid-aim, so look again when the aim runs out
+    if (result.isAiming && result.expiresAt !== null && this.aimTimer === null) {
+      this.aimTimer = window.setTimeout(() => {
+        this.aimTimer = null;
+        this.checkPointerZone();
+      }, Math.max(0, result.expiresAt - now));
+    }
+
+    return result.isAiming;
+  }
+
+  private clearAimTimer() {
+    if (this.aimTimer !== null) {
+      window.clearTimeout(this.aimTimer);
+      this.aimTimer = null;
+    }
   }
 
   private getElementsAtPoint(x: number, y: number): Element[] {
@@ -273,12 +362,13 @@ export class PointerEngine {
     return elements;
   }
 
-  private setZone(zone: PointerZone) {
-    if (this.lastPointer.overZone !== zone) {
+  private setZone(zone: PointerZone, isAiming = false) {
+    if (this.lastPointer.overZone !== zone || !!this.lastPointer.isAiming !== isAiming) {
       this.lastPointer.overZone = zone;
+      this.lastPointer.isAiming = isAiming;
       this.notifyListeners();
-      this.updateDebugOverlay();
     }
+    this.updateDebugOverlay();
   }
 
   private notifyListeners() {
@@ -309,6 +399,18 @@ export class PointerEngine {
       border-radius: 4px;
     `;
     document.body.appendChild(this.debugOverlay);
+
+    // Full-viewport layer for the aim triangle and velocity vector
+    this.debugCanvas = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    this.debugCanvas.style.cssText = `
+      position: fixed;
+      inset: 0;
+      width: 100vw;
+      height: 100vh;
+      z-index: 999998;
+      pointer-events: none;
+    `;
+    document.body.appendChild(this.debugCanvas);
     this.updateDebugOverlay();
   }
 
@@ -324,9 +426,21 @@ export class PointerEngine {
       <div>Pos: ${x}, ${y}</div>
       <div>Input: ${inputType}</div>
       <div>Velocity: ${vx}, ${vy}</div>
+      <div>Aiming: ${this.lastPointer.isAiming ? 'yes' : 'no'}</div>
       <div>Triggers: ${this.triggers.size}</div>
       <div>Cards: ${this.cards.size}</div>
     `;
+
+    if (this.debugCanvas) {
+      const triangle = this.aimTriangle
+        ? `<polygon points="${this.aimTriangle.map(p => `${p.x},${p.y}`).join(' ')}" fill="${this.lastPointer.isAiming ? 'rgba(56,189,248,0.2)' : 'rgba(248,113,113,0.12)'}" stroke="rgba(56,189,248,0.8)" stroke-width="1" />`
+        : '';
+      // Vector shows where the pointer will be in 100ms
+      const heading = velocity && x >= 0
+        ? `<line x1="${x}" y1="${y}" x2="${x + velocity.x * 0.1}" y2="${y + velocity.y * 0.1}" stroke="rgba(250,204,21,0.9)" stroke-width="2" />`
+        : '';
+      this.debugCanvas.innerHTML = triangle + heading;
+    }
   }
 
   private removeDebugOverlay() {
@@ -334,5 +448,9 @@ export class PointerEngine {
       this.debugOverlay.remove();
       this.debugOverlay = null;
     }
+    if (this.debugCanvas) {
+      this.debugCanvas.remove();
+      this.debugCanvas = null;
+    }
   }
 }
@@ -1,15 +1,19 @@
 import React, { useMemo } from 'react';
 import { marked, type Tokens, type TokensList } from 'marked';
+import { formatTerm, parseTerm } from 'cascade-cards-core';
 
+// Namespaced anchors (#api:User) keep their case so the key survives the round trip
 function slugifyAnchor(anchor: string): string {
-  return anchor.trim().replace(/\s+/g, '-').toLowerCase();
+  const slug = anchor.trim().replace(/\s+/g, '-');
+  return parseTerm(slug).namespace ? slug : slug.toLowerCase();
 }
 
 function deslugifyTerm(term: string): string {
   try {
     term = decodeURIComponent(term);
   } catch {}
-  return term.replace(/-/g, ' ').trim();
+  const { namespace, key } = parseTerm(term.trim());
+  return formatTerm({ namespace, key: key.replace(/-/g, ' ').trim() });
 }
 
 function preprocessMarkdown(markdown: string): string {
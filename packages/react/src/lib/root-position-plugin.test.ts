@@ -0,0 +1,37 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { HoverEngine, HoverKitConfigSchema, type OpenCardRequest } from 'cascade-cards-core';
+import { createRootPositionPlugin } from './root-position-plugin.js';
+
+function createContext() {
+  const engine = new HoverEngine(HoverKitConfigSchema.parse({ sources: [] }));
+  return { engine, term: 'rate' };
+}
+
+function trigger(): HTMLElement {
+  const element = document.createElement('span');
+  element.getBoundingClientRect = () => ({ left: 400, top: 300, width: 60, height: 20, x: 400, y: 300, right: 460, bottom: 320, toJSON: () => ({}) });
+  document.body.appendChild(element);
+  return element;
+}
+
+describe('createRootPositionPlugin', () => {
+  const plugin = createRootPositionPlugin();
+
+  it('places root cards against their trigger', () => {
+    const request: OpenCardRequest = { term: 'rate', triggerElement: trigger(), position: { x: 0, y: 0 } };
+    const result = plugin.beforeOpen!(request, createContext());
+
+    expect(result).toMatchObject({ placement: 'bottom', position: { x: 430 } });
+  });
+
+  it('keeps a placement that is already set', () => {
+    const request: OpenCardRequest = { term: 'rate', triggerElement: trigger(), position: { x: 1, y: 2 }, placement: 'left' };
+    expect(plugin.beforeOpen!(request, createContext())).toBeUndefined();
+  });
+
+  it('leaves child cards alone', () => {
+    const request: OpenCardRequest = { term: 'rate', triggerElement: trigger(), position: { x: 1, y: 2 }, parentId: 'card-1' };
+    expect(plugin.beforeOpen!(request, createContext())).toBeUndefined();
+  });
+});
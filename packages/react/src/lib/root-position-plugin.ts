@@ -0,0 +1,20 @@
+import { toPlacementRect, type HoverEngine, type HoverEnginePlugin, type Placement } from 'cascade-cards-core';
+
+// Places a root card against its trigger with the engine's placement rules and the
+// size of the last rendered card; the card is placed again once it has been measured
+export function computeRootCardPlacement(engine: HoverEngine, element: HTMLElement): Placement {
+  return engine.computePlacement(toPlacementRect(element.getBoundingClientRect()));
+}
+
+// Places every root card (including those opened by core highlight listeners) next to its trigger.
+// Cards that already come with a placement, e.g. from HoverEngine.pinCard, keep it.
+export function createRootPositionPlugin(): HoverEnginePlugin {
+  return {
+    name: 'root-position',
+    beforeOpen: ({ triggerElement, parentId, placement }, { engine }) => {
+      if (parentId || placement || !triggerElement || typeof window === 'undefined') return;
+      const { position, side } = computeRootCardPlacement(engine, triggerElement);
+      return { position, placement: side };
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { CardState } from 'cascade-cards-core';
+import { computeCardLayout, type StackBehavior, type StackLayoutContext } from './stack-layouts.js';
+
+function card(level: number, x: number, y: number, overrides: Partial<CardState> = {}): CardState {
+  return {
+    id: `card-${level}`,
+    term: `term-${level}`,
+    content: null,
+    position: { x, y },
+    isPinned: true,
+    isLoading: false,
+    level,
+    history: [`term-${level}`],
+    historyIndex: 0,
+    ...overrides,
+  };
+}
+
+function context(behavior: StackBehavior): StackLayoutContext {
+  return {
+    behavior,
+    offset: 20,
+    padding: 8,
+    viewport: { width: 1000, height: 800 },
+    getSize: () => ({ width: 200, height: 100 }),
+  };
+}
+
+const root = card(1, 300, 200);
+const children = [card(2, 700, 500), card(3, 700, 500), card(4, 700, 500)];
+
+describe('computeCardLayout', () => {
+  it('keeps the root card where it opened, inside the viewport', () => {
+    expect(computeCardLayout([root], context('column'))).toEqual({ x: 300, y: 200, rotate: 0 });
+    expect(computeCardLayout([card(1, 990, 790)], context('fan'))).toEqual({ x: 892, y: 742, rotate: 0 });
+  });
+
+  it('stacks column cards beside their parent with the tops aligned', () => {
+    expect(computeCardLayout([root, children[0]], context('column'))).toEqual({ x: 508, y: 200, rotate: 0 });
+    expect(computeCardLayout([root, children[0], children[1]], context('column'))).toEqual({ x: 716, y: 200, rotate: 0 });
+  });
+
+  it('flips a column to the left of its parent when the right runs out', () => {
+    expect(computeCardLayout([root, ...children], context('column'))).toEqual({ x: 508, y: 200, rotate: 0 });
+    expect(computeCardLayout([card(1, 850, 200), children[0]], context('column'))).toEqual({ x: 642, y: 200, rotate: 0 });
+  });
+
+  it('fans each level a step further around the root card', () => {
+    expect(computeCardLayout([root, children[0]], context('fan'))).toEqual({
+      x: 320,
+      y: 205,
+      rotate: 5,
+      transformOrigin: '50% 100%',
+    });
+    expect(computeCardLayout([root, children[0], children[1]], context('fan'))).toMatchObject({ x: 340, y: 210, rotate: 10 });
+  });
+
+  it('shows every tab in the root card frame', () => {
+    expect(computeCardLayout([root, children[0], children[1]], context('tabs'))).toEqual({ x: 300, y: 200, rotate: 0 });
+  });
+
+  it('leaves cards the user placed out of every layout', () => {
+    const placed = card(2, 990, 500, { isUserPlaced: true });
+
+    for (const behavior of ['column', 'fan', 'tabs', 'spiral', 'cascade'] as const) {
+      expect(computeCardLayout([root, placed], context(behavior))).toEqual({ x: 892, y: 500, rotate: 0 });
+    }
+  });
+
+  it('lays out children of a user-placed parent from where it was put', () => {
+    // Clamped to x 108 first
+    const placed = card(1, 100, 600, { isUserPlaced: true });
+    expect(computeCardLayout([placed, children[0]], context('column'))).toEqual({ x: 316, y: 600, rotate: 0 });
+  });
+});
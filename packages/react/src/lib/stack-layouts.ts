@@ -0,0 +1,92 @@
+import { clampToViewport, type CardState, type HoverBehaviorConfig, type PlacementSize } from 'cascade-cards-core';
+
+export type StackBehavior = HoverBehaviorConfig['stackBehavior'];
+
+export interface StackLayoutContext {
+  behavior: StackBehavior;
+  // stackOffsetPixels from the behavior config
+  offset: number;
+  padding: number;
+  viewport: PlacementSize;
+  getSize: (card: CardState) => PlacementSize;
+}
+
+export interface CardLayout {
+  // Card center, like CardState.position
+  x: number;
+  y: number;
+  rotate: number;
+  transformOrigin?: string;
+}
+
+const COLUMN_GAP = 8;
+const FAN_ANGLE_DEG = 5;
+
+// Lays out the last card of `chain` (root first, as returned by selectCardChain).
+// Every layout ends inside the viewport.
+export function computeCardLayout(chain: readonly CardState[], context: StackLayoutContext): CardLayout {
+  const card = chain[chain.length - 1];
+  const size = context.getSize(card);
+  const clamp = (x: number, y: number) => clampToViewport({ x, y }, size, context.viewport, context.padding);
+
+  // Cards the user moved stay where they were put
+  if (chain.length <= 1 || card.isUserPlaced) {
+    return { ...clamp(card.position.x, card.position.y), rotate: 0 };
+  }
+
+  switch (context.behavior) {
+    case 'column':
+      return columnLayout(chain, context);
+
+    case 'fan': {
+      // Every level pivots around the root card's bottom edge, a little further each time
+      const root = computeCardLayout(chain.slice(0, 1), context);
+      const level = chain.length - 1;
+      const { x, y } = clamp(root.x + level * context.offset, root.y + level * context.offset * 0.25);
+      return { x, y, rotate: level * FAN_ANGLE_DEG, transformOrigin: '50% 100%' };
+    }
+
+    case 'tabs': {
+      // Every level shares the root card's frame
+      const root = computeCardLayout(chain.slice(0, 1), context);
+      return { ...clamp(root.x, root.y), rotate: 0 };
+    }
+
+    case 'spiral': {
+      // Cards placed against their link stay there; the rest spiral out from where they opened
+      if (card.placement) return { ...clamp(card.position.x, card.position.y), rotate: 0 };
+      const offset = context.offset * (card.level - 1);
+      const angle = (card.level - 1) * 0.3;
+      return {
+        ...clamp(card.position.x + Math.cos(angle) * offset, card.position.y + Math.sin(angle) * offset),
+        rotate: 0,
+      };
+    }
+
+    case 'cascade':
+    default:
+      return { ...clamp(card.position.x, card.position.y), rotate: 0 };
+  }
+}
+
+// Each child sits beside its parent with their tops aligned. Columns grow to the
+// right and flip to the left of the parent when the viewport runs out.
+function columnLayout(chain: readonly CardState[], context: StackLayoutContext): CardLayout {
+  const card = chain[chain.length - 1];
+  const parent = chain[chain.length - 2];
+  const size = context.getSize(card);
+  const parentSize = context.getSize(parent);
+  const parentLayout = computeCardLayout(chain.slice(0, -1), context);
+
+  const parentTop = parentLayout.y - parentSize.height / 2;
+  const rightX = parentLayout.x + parentSize.width / 2 + COLUMN_GAP + size.width / 2;
+  const leftX = parentLayout.x - parentSize.width / 2 - COLUMN_GAP - size.width / 2;
+  const fitsRight = rightX + size.width / 2 <= context.viewport.width - context.padding;
+  const fitsLeft = leftX - size.width / 2 >= context.padding;
+
+  const x = fitsRight || !fitsLeft ? rightX : leftX;
+  return {
+    ...clampToViewport({ x, y: parentTop + size.height / 2 }, size, context.viewport, context.padding),
+    rotate: 0,
+  };
+}
@@ -0,0 +1,36 @@
+export type StoreListener = () => void;
+
+// Minimal external store shape shared by HoverEngine and UIStore
+export interface ExternalStore<T> {
+  subscribe(listener: StoreListener): () => void;
+  getSnapshot(): T;
+}
+
+// Holds provider-owned UI state outside React so only the components that
+// select a changed slice re-render.
+export class UIStore<T extends object> implements ExternalStore<T> {
+  private state: T;
+  private listeners = new Set<StoreListener>();
+
+  constructor(initialState: T) {
+    this.state = initialState;
+  }
+
+  subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): T => this.state;
+
+  setState(update: Partial<T> | ((state: T) => Partial<T>)): void {
+    const patch = typeof update === 'function' ? update(this.state) : update;
+    const changed = (Object.keys(patch) as Array<keyof T>).some(key => !Object.is(patch[key], this.state[key]));
+    if (!changed) return;
+
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,94 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SerializedCardStack } from 'cascade-cards-core';
+import { readStackFromUrl, resolveUrlSyncOptions, writeStackToUrl } from './url-state.js';
+
+const stack: SerializedCardStack = {
+  version: 1,
+  cards: [{ term: 'interest rate', position: { x: 10, y: 20 }, isPinned: true }],
+};
+const empty: SerializedCardStack = { version: 1, cards: [] };
+
+// happy-dom's history API doesn't move the location, so replaceState is pointed at this
+function visit(path: string): void {
+  const { happyDOM } = window as unknown as { happyDOM: { setURL(url: string): void } };
+  happyDOM.setURL(new URL(path, window.location.href).href);
+}
+
+function currentPath(): string {
+  return window.location.pathname + window.location.search + window.location.hash;
+}
+
+beforeEach(() => {
+  vi.spyOn(window.history, 'replaceState').mockImplementation((_state, _title, url) => visit(String(url)));
+});
+
+afterEach(() => {
+  visit('/');
+  vi.restoreAllMocks();
+});
+
+describe('resolveUrlSyncOptions', () => {
+  it('defaults to the query string', () => {
+    expect(resolveUrlSyncOptions(true)).toEqual({ mode: 'query', param: 'cards' });
+    expect(resolveUrlSyncOptions({ mode: 'hash' })).toEqual({ mode: 'hash', param: 'cards' });
+    expect(resolveUrlSyncOptions(false)).toBeNull();
+  });
+});
+
+describe('query mode', () => {
+  const options = resolveUrlSyncOptions(true)!;
+
+  it('round-trips the stack and keeps the other parameters and the anchor', () => {
+    visit('/docs?page=2#fees');
+
+    writeStackToUrl(stack, options);
+    expect(readStackFromUrl(options)).toEqual(stack);
+
+    writeStackToUrl(empty, options);
+    expect(currentPath()).toBe('/docs?page=2#fees');
+  });
+});
+
+describe('hash mode', () => {
+  const options = resolveUrlSyncOptions({ mode: 'hash' })!;
+
+  it('stores the stack in the fragment', () => {
+    visit('/docs');
+
+    writeStackToUrl(stack, options);
+    expect(window.location.search).toBe('');
+    expect(readStackFromUrl(options)).toEqual(stack);
+
+    writeStackToUrl(empty, options);
+    expect(currentPath()).toBe('/docs');
+  });
+
+  it('leaves a plain anchor alone and uses the query string instead', () => {
+    visit('/docs#fees');
+
+    writeStackToUrl(stack, options);
+    expect(window.location.hash).toBe('#fees');
+    expect(readStackFromUrl(options)).toEqual(stack);
+
+    writeStackToUrl(empty, options);
+    expect(currentPath()).toBe('/docs#fees');
+  });
+});
+
+it('ignores a malformed stored stack', () => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  visit('/docs?cards=%7Bnot-json');
+
+  expect(readStackFromUrl(resolveUrlSyncOptions(true)!)).toBeNull();
+});
+
+it('survives a browser refusing replaceState', () => {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(window.history, 'replaceState').mockImplementation(() => {
+    throw new DOMException('Too many calls', 'SecurityError');
+  });
+
+  expect(() => writeStackToUrl(stack, resolveUrlSyncOptions(true)!)).not.toThrow();
+  expect(warn).toHaveBeenCalled();
+});
@@ -0,0 +1,95 @@
+import type { HoverEngine, SerializedCardStack } from 'cascade-cards-core';
+import { computeRootCardPlacement } from './root-position-plugin.js';
+
+export interface UrlSyncOptions {
+  /**
+   * Where the stack is stored: the query string (`?cards=...`) or the fragment (`#cards=...`).
+   * A fragment that is a plain in-page anchor (`#fees`) is left alone and the query string is used.
+   */
+  mode?: 'hash' | 'query';
+  /** Parameter name holding the serialized stack. */
+  param?: string;
+}
+
+export type ResolvedUrlSyncOptions = Required<UrlSyncOptions>;
+
+export function resolveUrlSyncOptions(options: boolean | UrlSyncOptions | undefined): ResolvedUrlSyncOptions | null {
+  if (!options) return null;
+  const { mode = 'query', param = 'cards' } = options === true ? {} : options;
+  return { mode, param };
+}
+
+// Only an empty fragment or one made of key=value pairs can hold the stack
+function isParamFragment(fragment: string): boolean {
+  return fragment === '' || fragment.split('&').every(part => part.includes('='));
+}
+
+function getStorage(mode: ResolvedUrlSyncOptions['mode']): ResolvedUrlSyncOptions['mode'] {
+  return mode === 'hash' && isParamFragment(window.location.hash.slice(1)) ? 'hash' : 'query';
+}
+
+function readParams(storage: ResolvedUrlSyncOptions['mode']): URLSearchParams {
+  return new URLSearchParams(storage === 'hash' ? window.location.hash.slice(1) : window.location.search);
+}
+
+// Returns the raw stored value; HoverEngine.restore validates it
+export function readStackFromUrl({ mode, param }: ResolvedUrlSyncOptions): unknown {
+  if (typeof window === 'undefined') return null;
+
+  const value = readParams(getStorage(mode)).get(param);
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.warn(`Ignoring malformed card stack in URL parameter "${param}"`);
+    return null;
+  }
+}
+
+// Uses replaceState so hovering around doesn't flood the browser history
+export function writeStackToUrl(stack: SerializedCardStack, { mode, param }: ResolvedUrlSyncOptions): void {
+  if (typeof window === 'undefined') return;
+
+  const storage = getStorage(mode);
+  const params = readParams(storage);
+  if (stack.cards.length > 0) {
+    params.set(param, JSON.stringify(stack));
+  } else {
+    params.delete(param);
+  }
+
+  const query = params.toString();
+  const url = new URL(window.location.href);
+  if (storage === 'hash') {
+    url.hash = query;
+  } else {
+    url.search = query;
+  }
+
+  if (url.href === window.location.href) return;
+  try {
+    window.history.replaceState(window.history.state, '', url.href);
+  } catch (error) {
+    // Browsers rate-limit replaceState (Safari throws SecurityError)
+    console.warn('Failed to write the card stack to the URL:', error);
+  }
+}
+
+export function findTermTrigger(term: string): HTMLElement | null {
+  if (typeof document === 'undefined') return null;
+  const escaped = typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(term) : term.replace(/["\\]/g, '\\$&');
+  return document.querySelector<HTMLElement>(`[data-hover-term="${escaped}"]`);
+}
+
+// Root cards follow their trigger when it is on the page; the saved position is the fallback
+export function anchorStackToTriggers(stack: SerializedCardStack, engine: HoverEngine): SerializedCardStack {
+  return {
+    ...stack,
+    cards: stack.cards.map(card => {
+      if (card.parent !== undefined) return card;
+      const trigger = findTermTrigger(card.term);
+      return trigger ? { ...card, position: computeRootCardPlacement(engine, trigger).position } : card;
+    }),
+  };
+}
@@ -4,7 +4,7 @@ import matter from 'gray-matter';
 import { remark } from 'remark';
 import remarkHtml from 'remark-html';
 import fg from 'fast-glob';
-import type { DataSource, DataSourceContent } from 'cascade-cards-core';
+import type { DataSource, DataSourceContent, ResolveOptions, TermDefinition } from 'cascade-cards-core';
 
 interface MarkdownSourceOptions {
   /** Glob pattern to find markdown files like 'docs/subfolder/file.md' */
@@ -46,8 +46,9 @@ export class MarkdownSource implements DataSource {
     };
   }
 
-  async resolve(term: string): Promise<DataSourceContent | null> {
+  async resolve(term: string, options: ResolveOptions = {}): Promise<DataSourceContent | null> {
     await this.ensureInitialized();
+    options.signal?.throwIfAborted();
 
     // Try to resolve term to a file path
     const filePath = this.options.termResolver(term);
@@ -71,8 +72,11 @@ export class MarkdownSource implements DataSource {
 
       return this.toDataSourceContent(parsed);
     } catch (error) {
-      console.warn(`Failed to load markdown file for term "${term}":`, error);
-      return null;
+      // The file was removed after the index was built; anything else is a real failure
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -242,6 +246,44 @@ export class MarkdownSource implements DataSource {
     return Array.from(this.fileMap.keys());
   }
 
+  async getTerms(): Promise<TermDefinition[]> {
+    await this.ensureInitialized();
+
+    const filePaths = new Set(this.fileMap.values());
+    const definitions: TermDefinition[] = [];
+
+    for (const filePath of filePaths) {
+      const basename = path.basename(filePath, path.extname(filePath));
+      const term = basename.replace(/[-_]+/g, ' ').trim();
+      const aliases = new Set<string>();
+      let exact = false;
+
+      try {
+        const { data: frontmatter } = matter(await fs.readFile(filePath, 'utf-8'));
+        if (typeof frontmatter.title === 'string' && frontmatter.title.toLowerCase() !== term.toLowerCase()) {
+          aliases.add(frontmatter.title);
+        }
+        if (Array.isArray(frontmatter.aliases)) {
+          frontmatter.aliases
+            .filter((alias: unknown): alias is string => typeof alias === 'string')
+            .forEach((alias: string) => aliases.add(alias));
+        }
+        // `exact: true` keeps inflected forms of the term from matching
+        exact = frontmatter.exact === true;
+      } catch (error) {
+        console.warn(`Failed to read frontmatter from "${filePath}":`, error);
+      }
+
+      definitions.push({
+        term,
+        aliases: aliases.size > 0 ? Array.from(aliases) : undefined,
+        ...(exact ? { exact } : {}),
+      });
+    }
+
+    return definitions;
+  }
+
   async clearCache(): Promise<void> {
     this.cache.clear();
   }
@@ -1,2 +1,2 @@
-export { RestSource, restSource } from './rest-source.js';
+export { RestSource, RestSourceError, restSource } from './rest-source.js';
 
@@ -1,5 +1,5 @@
 import { request } from 'undici';
-import type { DataSource, DataSourceContent } from 'cascade-cards-core';
+import type { DataSource, DataSourceContent, ResolveOptions } from 'cascade-cards-core';
 
 export interface RestSourceOptions {
   /** Base URL for the REST API, e.g. https://api.example.com */
@@ -12,6 +12,19 @@ export interface RestSourceOptions {
   transform?: (data: unknown) => DataSourceContent | null;
 }
 
+export class RestSourceError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(status: number, url: string) {
+    super(`Request to ${url} failed with status ${status}`);
+    this.name = 'RestSourceError';
+    this.status = status;
+    // Client errors will fail the same way again; server errors and throttling may not
+    this.retryable = status >= 500 || status === 429;
+  }
+}
+
 export class RestSource implements DataSource {
   name = 'rest';
   private options: RestSourceOptions;
@@ -23,28 +36,35 @@ export class RestSource implements DataSource {
     this.options = options;
   }
 
-  async resolve(term: string): Promise<DataSourceContent | null> {
+  async resolve(term: string, options: ResolveOptions = {}): Promise<DataSourceContent | null> {
     const url = this.buildUrl(term);
+    const { statusCode, body } = await request(url, {
+      headers: this.options.headers,
+      signal: options.signal,
+    });
+
+    // A missing term is a miss, not a failure
+    if (statusCode === 404) {
+      await body.dump();
+      return null;
+    }
 
-    try {
-      const { body } = await request(url, {
-        headers: this.options.headers,
-      });
-      const data = await body.json();
+    if (statusCode >= 400) {
+      await body.dump();
+      throw new RestSourceError(statusCode, url);
+    }
 
-      if (this.options.transform) {
-        return this.options.transform(data);
-      }
+    const data = await body.json();
 
-      if (this.isDataSourceContent(data)) {
-        return data;
-      }
+    if (this.options.transform) {
+      return this.options.transform(data);
+    }
 
-      return null;
-    } catch (error) {
-      console.warn(`[RestSource] Failed to resolve term "${term}":`, error);
-      return null;
+    if (this.isDataSourceContent(data)) {
+      return data;
     }
+
+    return null;
   }
 
   private buildUrl(term: string): string {